@@ -311,7 +311,7 @@ describe("Codegen output (blog schema)", () => {
         expect(content).toContain("setGraphQLSubscriber");
         expect(content).toContain("export async function execute");
         expect(content).toContain("export async function* subscribe");
-        expect(content).toContain("TextBuilder");
+        expect(content).toContain("buildOperationDocument");
     });
 
     // ── type-hierarchy.ts ──
@@ -5,9 +5,10 @@ import {
   GraphQLSchema,
   GraphQLString,
   GraphQLNonNull,
+  GraphQLScalarType,
 } from "graphql";
 import { Generator } from "../generator";
-import { mkdtemp, readdir, access } from "fs/promises";
+import { mkdtemp, readdir, readFile, access } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
 import { rm } from "fs/promises";
@@ -164,3 +165,149 @@ describe("代码生成输出完整性", () => {
     );
   });
 });
+
+describe("scalarTypeMap", () => {
+  it("maps the Upload scalar to File | Blob for multipart uploads", async () => {
+    const Upload = new GraphQLScalarType({ name: "Upload" });
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: { ping: { type: GraphQLString } },
+      }),
+      mutation: new GraphQLObjectType({
+        name: "Mutation",
+        fields: {
+          upload: {
+            type: GraphQLString,
+            args: { file: { type: new GraphQLNonNull(Upload) } },
+          },
+        },
+      }),
+    });
+    const tmpDir = await mkdtemp(join(tmpdir(), "typedgql-upload-"));
+    const targetDir = join(tmpDir, "__generated");
+
+    try {
+      await new Generator({
+        schemaLoader: async () => schema,
+        targetDir,
+        scalarTypeMap: { Upload: "File | Blob" },
+      }).generate();
+
+      const scalarTypes = await readFile(join(targetDir, "scalar-types.ts"), "utf8");
+      expect(scalarTypes).toContain("export type Upload = File | Blob;");
+      const mutation = await readFile(
+        join(targetDir, "selections", "mutation-selection.ts"),
+        "utf8",
+      );
+      expect(mutation).toContain("UserScalarTypes.Upload");
+    } finally {
+      await rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("scalarCodecs", () => {
+  const DateTime = new GraphQLScalarType({ name: "DateTime" });
+  const schema = new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: "Query",
+      fields: { now: { type: new GraphQLNonNull(DateTime) } },
+    }),
+  });
+
+  it("registers codecs and records custom scalar fields", async () => {
+    const tmpDir = await mkdtemp(join(tmpdir(), "typedgql-codecs-"));
+    const targetDir = join(tmpDir, "__generated");
+
+    try {
+      await new Generator({
+        schemaLoader: async () => schema,
+        targetDir,
+        scalarTypeMap: { DateTime: "Date" },
+        scalarCodecs: {
+          DateTime: { module: join(tmpDir, "scalars"), export: "dateTimeCodec" },
+        },
+      }).generate();
+
+      const codecs = await readFile(join(targetDir, "scalar-codecs.ts"), "utf8");
+      expect(codecs).toContain(
+        'import { dateTimeCodec as DateTime } from "../scalars";',
+      );
+      expect(codecs).toContain("registerScalarCodecs({ DateTime });");
+      const index = await readFile(join(targetDir, "index.ts"), "utf8");
+      expect(index).toContain('import "./scalar-codecs";');
+      const query = await readFile(
+        join(targetDir, "selections", "query-selection.ts"),
+        "utf8",
+      );
+      expect(query).toContain('scalarTypeName: "DateTime"');
+    } finally {
+      await rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects codecs for types that are not custom scalars", async () => {
+    await expect(
+      new Generator({
+        schemaLoader: async () => schema,
+        targetDir: join(tmpdir(), "typedgql-codecs-invalid"),
+        scalarCodecs: { String: { module: "./scalars" } },
+      }).generate(),
+    ).rejects.toThrow("config.scalarCodecs contains an illegal key 'String'");
+  });
+});
+
+describe("nullMode", () => {
+  it("writes nullable result fields as '| null' with nullMode 'preserve'", async () => {
+    const schema = new GraphQLSchema({
+      query: new GraphQLObjectType({
+        name: "Query",
+        fields: { greeting: { type: GraphQLString } },
+      }),
+    });
+    const tmpDir = await mkdtemp(join(tmpdir(), "typedgql-null-mode-"));
+    const targetDir = join(tmpDir, "__generated");
+
+    try {
+      await new Generator({
+        schemaLoader: async () => schema,
+        targetDir,
+        nullMode: "preserve",
+      }).generate();
+
+      const query = await readFile(
+        join(targetDir, "selections", "query-selection.ts"),
+        "utf8",
+      );
+      expect(query).toContain('{readonly "greeting": string | null}');
+    } finally {
+      await rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it.each([
+    [undefined, "undefined"],
+    ["undefined", "undefined"],
+    ["preserve", "preserve"],
+  ] as const)("emits the runtime default for nullMode %s", async (nullMode, expected) => {
+    const tmpDir = await mkdtemp(join(tmpdir(), "typedgql-null-mode-"));
+    const targetDir = join(tmpDir, "__generated");
+
+    try {
+      await new Generator({
+        schemaLoader: async () => buildSchema(["User"]),
+        targetDir,
+        nullMode,
+      }).generate();
+
+      const runtime = await readFile(join(targetDir, "client-runtime.ts"), "utf8");
+      expect(runtime).toContain(`const DEFAULT_NULL_MODE = "${expected}";`);
+      expect(runtime).toContain("export type DefaultNullMode = typeof DEFAULT_NULL_MODE;");
+      expect(runtime).not.toContain("__DEFAULT_NULL_MODE__");
+      expect(runtime.match(/DEFAULT_NULL_MODE = /g)).toHaveLength(1);
+    } finally {
+      await rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -6,14 +6,16 @@ import {
   GraphQLNamedType,
   GraphQLNonNull,
   GraphQLObjectType,
+  GraphQLScalarType,
   GraphQLSchema,
   GraphQLType,
   GraphQLUnionType,
+  isSpecifiedScalarType,
 } from "graphql";
 import type { CodegenOptions } from "./options";
 import { mkdir, readFile, rm, writeFile } from "fs/promises";
 import { createWriteStream, WriteStream } from "fs";
-import { join, resolve } from "path";
+import { isAbsolute, join, relative, resolve } from "path";
 import { SelectionWriter } from "./writers/selection";
 import { EnumWriter } from "./writers/enum";
 import { InputWriter } from "./writers/input";
@@ -35,6 +37,9 @@ const DEFAULT_TARGET_DIR = resolve(
 /** Parent package dir: node_modules/@ptdgrp/typedgql */
 const PACKAGE_DIR = resolve(process.cwd(), "node_modules/@ptdgrp/typedgql");
 
+/** Stands for the configured `nullMode` in the async runtime template. */
+const DEFAULT_NULL_MODE_PLACEHOLDER = "__DEFAULT_NULL_MODE__";
+
 /** Field names reserved by the runtime SelectionNode implementation. */
 const RESERVED_FIELDS = new Set([
   "constructor",
@@ -66,6 +71,7 @@ export class Generator {
     const schema = await this.options.schemaLoader();
     this.validateSchema(schema);
     this.validateScalarTypeDeclarations();
+    this.validateScalarCodecs(schema);
 
     await rm(this.targetDir, { recursive: true, force: true });
     await mkdir(this.targetDir, { recursive: true });
@@ -197,6 +203,9 @@ export class Generator {
     if (this.hasScalarTypes()) {
       promises.push(this.generateScalarTypes());
     }
+    if (this.hasScalarCodecs()) {
+      promises.push(this.generateScalarCodecs());
+    }
     promises.push(this.writeIndex(schema, ctx));
 
     await Promise.all(promises);
@@ -351,7 +360,12 @@ export class Generator {
 
   private async generateAsyncRuntime() {
     const stream = createStream(join(this.targetDir, "client-runtime.ts"));
-    stream.write(ASYNC_CODE);
+    stream.write(
+      ASYNC_CODE.replace(
+        DEFAULT_NULL_MODE_PLACEHOLDER,
+        JSON.stringify(this.options.nullMode ?? "undefined"),
+      ),
+    );
     await endStream(stream);
   }
 
@@ -383,6 +397,34 @@ export class Generator {
     await endStream(stream);
   }
 
+  private async generateScalarCodecs() {
+    const stream = createStream(join(this.targetDir, "scalar-codecs.ts"));
+    const entries = Object.entries(this.options.scalarCodecs!).sort((a, b) =>
+      a[0].localeCompare(b[0]),
+    );
+    stream.write(`import { registerScalarCodecs } from "../dist/index.mjs";\n`);
+    for (const [scalarName, codec] of entries) {
+      const exportName = codec.export ?? scalarName;
+      const imported =
+        exportName === scalarName ? scalarName : `${exportName} as ${scalarName}`;
+      stream.write(
+        `import { ${imported} } from "${this.codecModuleSpecifier(codec.module)}";\n`,
+      );
+    }
+    stream.write(
+      `\nregisterScalarCodecs({ ${entries.map(([scalarName]) => scalarName).join(", ")} });\n`,
+    );
+    await endStream(stream);
+  }
+
+  // Relative module paths are resolved against the working directory.
+  private codecModuleSpecifier(module: string): string {
+    if (!module.startsWith(".") && !isAbsolute(module)) return module;
+    const path = relative(this.targetDir, resolve(process.cwd(), module))
+      .replaceAll("\\", "/");
+    return path.startsWith(".") ? path : `./${path}`;
+  }
+
   private writeScalarMapAliases(
     stream: WriteStream,
     exportedNames: ReadonlySet<string>,
@@ -414,18 +456,22 @@ export class Generator {
       );
     }
     stream.write(
-      `import { ENUM_INPUT_METADATA } from "./enum-input-metadata";\n\n`,
+      `import { ENUM_INPUT_METADATA } from "./enum-input-metadata";\n`,
     );
+    if (this.hasScalarCodecs()) {
+      stream.write(`import "./scalar-codecs";\n`);
+    }
+    stream.write("\n");
     if (this.hasScalarTypes()) {
       stream.write(
         `export type { ${SCALAR_TYPES_NAMESPACE} } from "./scalar-types";\n`,
       );
     }
     stream.write(
-      `export type { GraphQLExecutor, GraphQLSubscriber, Simplify } from "./client-runtime";\n`,
+      `export type { GraphQLExecutor, GraphQLSubscriber, GraphQLOperation, Simplify, ErrorPolicy, FetchPolicy, NullMode, DefaultNullMode, NullModeData, ExecuteOptions, MutationData, RefetchQuery, CacheProxy, SubscribeOptions, WatchOptions, WatchObserver, WatchSubscription, WatchQuery, ExecutionResult, IncrementalExecutionResult, GraphQLClient, GraphQLClientOptions, GraphQLSubError, GraphQLErrorLocation } from "./client-runtime";\n`,
     );
     stream.write(
-      `export { setGraphQLExecutor, setGraphQLSubscriber, execute, subscribe } from "./client-runtime";\n`,
+      `export { setGraphQLExecutor, setGraphQLSubscriber, setGraphQLErrorPolicy, createClient, execute, executeResult, executeIncremental, watch, subscribe, GraphQLError } from "./client-runtime";\n`,
     );
     stream.write(
       "export type { ImplementationType } from './type-hierarchy';\n",
@@ -556,10 +602,10 @@ export class Generator {
       );
     }
     stream.write(
-      `export type { Selection, ExecutableSelection, ShapeOf, VariablesOf, Expand, FieldSelection, DirectiveArgs, EnumInputMetadata, EnumInputMetaType, AcceptableVariables, UnresolvedVariables, ValueOrThunk, SchemaType, SchemaField, SchemaTypeCategory, SchemaFieldCategory, FieldOptions } from './dist/index.mjs';\n`,
+      `export type { Selection, ExecutableSelection, ShapeOf, VariablesOf, Expand, CombinedSelection, CombinedShape, CombinedVariables, FieldSelection, DirectiveArgs, EnumInputMetadata, EnumInputMetaType, ScalarCodec, AcceptableVariables, UnresolvedVariables, ValueOrThunk, SchemaType, SchemaField, SchemaTypeCategory, SchemaFieldCategory, FieldOptions, GraphQLOperationType, GraphQLMiddleware, GraphQLExecutorMiddleware, GraphQLSubscriberMiddleware, PersistedQueryOptions, ResponsePath, ResponseShapeMismatch, ResponseValidationOptions, HttpExecutorOptions, HttpHeaders, BatchHttpExecutorOptions, ExtractedFiles, IncrementalResult, WebSocketLike, WebSocketConstructor, ConnectionParams, WebSocketSubscriberOptions, SseSubscriberOptions, CacheInvalidationTarget, AsyncQueue } from './dist/index.mjs';\n`,
     );
     stream.write(
-      `export { FragmentSpread, FragmentRef, StringValue, runtimeOf, createSchemaType, resolveRegisteredSchemaType, registerSchemaTypeFactory, SelectionNode, createSelection, ParameterRef, EnumInputMetadataBuilder, TextBuilder, cyrb53 } from './dist/index.mjs';\n`,
+      `export { FragmentSpread, FragmentRef, StringValue, runtimeOf, createSchemaType, resolveRegisteredSchemaType, registerSchemaTypeFactory, SelectionNode, createSelection, buildOperationDocument, combine, ParameterRef, EnumInputMetadataBuilder, registerScalarCodecs, decodeScalars, encodeScalars, encodeScalarVariables, TextBuilder, cyrb53, composeExecutor, composeSubscriber, dedupeExecutor, persistedQueryExecutor, persistedDocumentExecutor, validateResponseShape, validateResponseExecutor, validateResponseSubscriber, ResponseShapeError, createHttpExecutor, GraphQLHttpError, createBatchHttpExecutor, extractFiles, createMultipartBody, mergeIncrementalPayloads, readMultipartMixed, createWebSocketSubscriber, createSseSubscriber, NormalizedCache, createAsyncQueue } from './dist/index.mjs';\n`,
     );
     stream.write(`import { fragment$ } from './__generated/index';\n`);
 
@@ -734,6 +780,26 @@ export class Generator {
     }
   }
 
+  private validateScalarCodecs(schema: GraphQLSchema): void {
+    const { scalarCodecs } = this.options;
+    if (!scalarCodecs) return;
+    for (const scalarName in scalarCodecs) {
+      const type = schema.getType(scalarName);
+      if (!(type instanceof GraphQLScalarType) || isSpecifiedScalarType(type)) {
+        throw new Error(
+          `config.scalarCodecs contains an illegal key '${scalarName}', ` +
+            "that is not a custom graphql scalar type",
+        );
+      }
+      const exportName = scalarCodecs[scalarName]!.export;
+      if (exportName !== undefined && !/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(exportName)) {
+        throw new Error(
+          `config.scalarCodecs['${scalarName}'].export '${exportName}' is not identifier`,
+        );
+      }
+    }
+  }
+
   private validateScalarTypeDeclarations(): void {
     analyzeScalarTypeDeclarations(this.options.scalarTypeDeclarations);
     const scalarMap = this.options.scalarTypeMap;
@@ -745,6 +811,10 @@ export class Generator {
     }
   }
 
+  private hasScalarCodecs(): boolean {
+    return Object.keys(this.options.scalarCodecs ?? {}).length !== 0;
+  }
+
   private hasScalarTypes(): boolean {
     return (
       (this.options.scalarTypeDeclarations?.trim().length ?? 0) !== 0 ||
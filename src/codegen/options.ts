@@ -61,10 +61,47 @@ export interface CodegenOptions {
    *
    * Example:
    * `{ JSON: "JsonObject", DateTime: "string" }`
+   *
+   * Map the multipart `Upload` scalar with `{ Upload: "File | Blob" }`; the
+   * HTTP executor sends variables containing files as multipart requests.
    */
   readonly scalarTypeMap?: {
     readonly [key: string]: string;
   };
+  /**
+   * Runtime codecs for custom scalars, keyed by scalar name.
+   *
+   * Each entry names a module and its export (defaults to the scalar name)
+   * holding a `ScalarCodec` (`{ parse, serialize }`). Relative module paths are
+   * resolved against the working directory. Responses are parsed with the
+   * codec, and variables and literal arguments are serialized with it.
+   *
+   * `scalarTypeMap` still decides the generated TypeScript type, so map the
+   * scalar to what `parse` returns.
+   *
+   * Example:
+   * `{ DateTime: { module: "./src/scalars", export: "dateTimeCodec" } }`
+   * with `scalarTypeMap: { DateTime: "Date" }`
+   */
+  readonly scalarCodecs?: {
+    readonly [key: string]: {
+      readonly module: string;
+      readonly export?: string;
+    };
+  };
+  /**
+   * How `null` in results is handed back, and how result types are written.
+   *
+   * - `"undefined"`: `null` becomes `undefined`; nullable fields are optional
+   *   (`name?: string`). This copies every result.
+   * - `"preserve"`: results are returned as received; nullable fields are
+   *   typed `name: string | null`.
+   *
+   * Calls and clients may override it with their own `nullMode`.
+   *
+   * @default "undefined"
+   */
+  readonly nullMode?: "undefined" | "preserve";
   /**
    * TypeScript declaration source emitted into generated `scalar-types.ts` namespace.
    *
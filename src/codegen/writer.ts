@@ -244,6 +244,9 @@ export abstract class Writer {
 
   /**
    * Renders a GraphQL type as TypeScript type syntax.
+   *
+   * Nullable list items are typed `T | undefined`, or `T | null` for results
+   * generated with `nullMode: "preserve"`.
    */
   protected typeRef(
     type: GraphQLType,
@@ -253,16 +256,19 @@ export abstract class Writer {
           type: GraphQLObjectType | GraphQLInterfaceType,
           field: GraphQLField<any, any>,
         ) => boolean),
+    nullableItemType: "undefined" | "null" = "undefined",
   ): void {
     if (type instanceof GraphQLNonNull) {
-      this.typeRef(type.ofType, objectRender);
+      this.typeRef(type.ofType, objectRender, nullableItemType);
       return;
     }
     if (type instanceof GraphQLList) {
       const arrayType = this.options.arrayEditable ? "Array" : "ReadonlyArray";
       this.typeApplication(arrayType, () => {
-        this.typeRef(type.ofType, objectRender);
-        if (!(type.ofType instanceof GraphQLNonNull)) this.text(" | undefined");
+        this.typeRef(type.ofType, objectRender, nullableItemType);
+        if (!(type.ofType instanceof GraphQLNonNull)) {
+          this.text(` | ${nullableItemType}`);
+        }
       });
       return;
     }
@@ -8,8 +8,11 @@ import {
   GraphQLNamedType,
   GraphQLNonNull,
   GraphQLObjectType,
+  GraphQLScalarType,
   GraphQLType,
   GraphQLUnionType,
+  getNamedType,
+  isSpecifiedScalarType,
 } from "graphql";
 import {
   targetTypeOf,
@@ -339,7 +342,7 @@ export class SelectionWriter extends Writer {
   private writeSelectionInterfaceHeader() {
     const superSelection = this.superSelectionTypeName(this.modelType);
     this.text(
-      `export interface ${this.selectionTypeName}<T extends object = {}, TVariables extends object = {}, TLastField extends string = never> extends ${superSelection}<'${this.modelType.name}', T, TVariables> `,
+      `export interface ${this.selectionTypeName}<T extends object = {}, TVariables extends object = {}, TLastField extends string = never, TDeferred extends object = never> extends ${superSelection}<'${this.modelType.name}', T, TVariables> `,
     );
   }
 
@@ -367,8 +370,25 @@ export class SelectionWriter extends Writer {
     const fragmentTypeName = this.fragmentTypeNameType();
     const inlineSelectionFor = (xName: string, data: string, vars: string) =>
       this.fragmentSelectionTypeForModel(xName, data, vars);
-    const mergedDataTypeForOn = `XName extends '${modelName}' ?\nT & ShapeOf<XSelection> :\nWithTypeName<T, ${fragmentTypeName}> & (WithTypeName<ShapeOf<XSelection>, ImplementationType<XName>> | {__typename: Exclude<${fragmentTypeName}, ImplementationType<XName>>})`;
-    const mergedDataTypeForUse = `XName extends '${modelName}' ?\nT & X :\nWithTypeName<T, ${fragmentTypeName}> & (WithTypeName<X, ImplementationType<XName>> | {__typename: Exclude<${fragmentTypeName}, ImplementationType<XName>>})`;
+    const mergedDataType = (x: string) =>
+      `XName extends '${modelName}' ?\nT & ${x} :\nWithTypeName<T, ${fragmentTypeName}> & (WithTypeName<${x}, ImplementationType<XName>> | {__typename: Exclude<${fragmentTypeName}, ImplementationType<XName>>})`;
+    // The last two type arguments let a following `$defer()` make the spread optional.
+    const writeSpreadReturnType = (
+      data: (deferred: boolean) => string,
+      variables: string,
+    ) => {
+      t(`: ${this.selectionTypeName}`);
+      this.scope({ type: "generic", multiLines: true }, () => {
+        t(data(false));
+        this.separator(", ");
+        t(variables);
+        this.separator(", ");
+        t(`"..."`);
+        this.separator(", ");
+        t(data(true));
+      });
+      t(";\n");
+    };
 
     t(`\n$on<XSelection extends ${selfSelectionType}<object, object>>`);
     this.scope({ type: "parameters", multiLines: true }, () => {
@@ -376,13 +396,11 @@ export class SelectionWriter extends Writer {
         `builder: (it: ${selfSelectionType}<{}, {}>) => XSelection`,
       );
     });
-    t(`: ${this.selectionTypeName}`);
-    this.scope({ type: "generic", multiLines: true }, () => {
-      t("T & ShapeOf<XSelection>");
-      this.separator(", ");
-      t("TVariables & VariablesOf<XSelection>");
-    });
-    t(";\n");
+    writeSpreadReturnType(
+      (deferred) =>
+        deferred ? "T & Partial<ShapeOf<XSelection>>" : "T & ShapeOf<XSelection>",
+      "TVariables & VariablesOf<XSelection>",
+    );
 
     t(
       `\n$on<const XName extends ${fragmentTypeName}, XSelection extends ${inlineSelectionFor("XName", "object", "object")}>`,
@@ -394,13 +412,13 @@ export class SelectionWriter extends Writer {
         `builder: (it: ${inlineSelectionFor("XName", "{}", "{}")}) => XSelection`,
       );
     });
-    t(`: ${this.selectionTypeName}`);
-    this.scope({ type: "generic", multiLines: true }, () => {
-      t(mergedDataTypeForOn);
-      this.separator(", ");
-      t("TVariables & VariablesOf<XSelection>");
-    });
-    t(";\n");
+    writeSpreadReturnType(
+      (deferred) =>
+        mergedDataType(
+          deferred ? "Partial<ShapeOf<XSelection>>" : "ShapeOf<XSelection>",
+        ),
+      "TVariables & VariablesOf<XSelection>",
+    );
 
     t(
       `\n$use<XName extends ${fragmentTypeName}, X extends object, XVariables extends object>`,
@@ -408,13 +426,19 @@ export class SelectionWriter extends Writer {
     this.scope({ type: "parameters", multiLines: true }, () => {
       t("fragment: ValueOrThunk<FragmentSpread<string, XName, X, XVariables>>");
     });
-    t(`: ${this.selectionTypeName}`);
-    this.scope({ type: "generic", multiLines: true }, () => {
-      t(mergedDataTypeForUse);
+    writeSpreadReturnType(
+      (deferred) => mergedDataType(deferred ? "Partial<X>" : "X"),
+      "TVariables & XVariables",
+    );
+
+    t(`\n$defer<XDeferred extends object>`);
+    this.scope({ type: "parameters", multiLines: true }, () => {
+      t(`this: ${this.selectionTypeName}<object, object, string, XDeferred>`);
       this.separator(", ");
-      t("TVariables & XVariables");
+      // Only a selection ending with `$on`/`$use` carries `XDeferred`.
+      t("...label: [XDeferred] extends [never] ? [never] : [label?: string]");
     });
-    t(";\n");
+    t(`: ${this.selectionTypeName}<XDeferred, TVariables>;\n`);
   }
 
   private fragmentTypeNameType(): string {
@@ -468,6 +492,23 @@ export class SelectionWriter extends Writer {
     t("\n$skip(condition: unknown): ");
     this.writeFieldAwareSelectionReturnType();
     t(";\n");
+
+    const listFields = Object.keys(this.fieldMap).filter(
+      (fieldName) => this.fieldCategoryMap.get(fieldName) === "LIST",
+    );
+    if (listFields.length !== 0) {
+      t("\n$stream<XLastField extends string>");
+      this.scope({ type: "parameters", multiLines: true }, () => {
+        t(`this: ${this.selectionTypeName}<object, object, XLastField>`);
+        this.separator(", ");
+        t(
+          `initialCount: XLastField extends ${listFields.map((f) => `"${f}"`).join(" | ")} ? number : never`,
+        );
+        this.separator(", ");
+        t("label?: string");
+      });
+      t(`: ${this.selectionTypeName}<T, TVariables, TLastField>;\n`);
+    }
   }
 
   private writeFieldAwareSelectionReturnType() {
@@ -567,7 +608,7 @@ export class SelectionWriter extends Writer {
         t("readonly ");
       }
       t(`"${field.name}"`);
-      if (!nonNull) {
+      if (!nonNull && !this.preservesNull) {
         t("?");
       }
       t(": ");
@@ -576,6 +617,9 @@ export class SelectionWriter extends Writer {
       } else {
         t("X");
       }
+      if (!nonNull && this.preservesNull) {
+        t(" | null");
+      }
       t("}");
       this.separator(", ");
       t("TVariables & XVariables");
@@ -733,14 +777,18 @@ export class SelectionWriter extends Writer {
     } else {
       t(`"${field.name}"`);
     }
-    if (nullable) {
+    if (nullable && !this.preservesNull) {
       t("?");
     }
     t(": ");
     this.typeRef(
       field.type,
       targetTypeOf(field.type) !== undefined ? "X" : undefined,
+      this.preservesNull ? "null" : "undefined",
     );
+    if (nullable && this.preservesNull) {
+      t(" | null");
+    }
     t("}");
   }
 
@@ -879,11 +927,18 @@ export class SelectionWriter extends Writer {
     const args = this.fieldArgsMap.get(field.name);
     const category = this.fieldCategoryMap.get(field.name);
     const targetType = targetTypeOf(field.type);
+    const namedType = getNamedType(field.type);
+    const customScalarType =
+      namedType instanceof GraphQLScalarType &&
+      !isSpecifiedScalarType(namedType)
+        ? namedType
+        : undefined;
     if (
       args === undefined &&
       (category === undefined || category === "SCALAR") &&
       field.type instanceof GraphQLNonNull &&
-      targetType === undefined
+      targetType === undefined &&
+      customScalarType === undefined
     ) {
       t(`"${field.name}"`);
       return;
@@ -910,6 +965,10 @@ export class SelectionWriter extends Writer {
         this.separator(", ");
         t(`targetTypeName: "${targetType.name}"`);
       }
+      if (customScalarType !== undefined) {
+        this.separator(", ");
+        t(`scalarTypeName: "${customScalarType.name}"`);
+      }
       if (!(field.type instanceof GraphQLNonNull)) {
         this.separator(", ");
         t("undefinable: true");
@@ -955,6 +1014,11 @@ export class SelectionWriter extends Writer {
     });
   }
 
+  // Result types spell out `| null` instead of optional fields.
+  private get preservesNull(): boolean {
+    return this.options.nullMode === "preserve";
+  }
+
   protected get declaredFieldNames(): ReadonlySet<string> {
     let set = this._declaredFieldNames;
     if (set === undefined) {
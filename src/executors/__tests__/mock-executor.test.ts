@@ -0,0 +1,171 @@
+import { GraphQLError } from "graphql";
+import { describe, expect, it } from "vitest";
+import { createMockExecutor } from "../mock-executor";
+
+const schema = /* GraphQL */ `
+  scalar DateTime
+
+  enum Role {
+    ADMIN
+    MEMBER
+  }
+
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    id: ID!
+    name: String!
+    role: Role!
+    age: Int
+  }
+
+  type Post implements Node {
+    id: ID!
+    title: String!
+    score: Float!
+    draft: Boolean!
+    publishedAt: DateTime
+    author: User!
+    tags: [String!]!
+  }
+
+  union SearchResult = User | Post
+
+  type Query {
+    post(id: ID!): Post
+    posts: [Post!]!
+    node(id: ID!): Node
+    search(text: String!): [SearchResult!]!
+  }
+`;
+
+const POSTS = `{ posts { id title score draft tags author { name role } } }`;
+
+describe("createMockExecutor", () => {
+  it("returns deterministic, schema-valid data per seed", async () => {
+    const executor = createMockExecutor(schema, { seed: 7 });
+    const first = (await executor(POSTS, {})) as any;
+
+    expect(first.errors).toBeUndefined();
+    expect(first.data.posts).toHaveLength(2);
+    for (const post of first.data.posts) {
+      expect(typeof post.id).toBe("string");
+      expect(typeof post.title).toBe("string");
+      expect(typeof post.score).toBe("number");
+      expect(typeof post.draft).toBe("boolean");
+      expect(post.tags).toHaveLength(2);
+      expect(["ADMIN", "MEMBER"]).toContain(post.author.role);
+    }
+    expect(first.data.posts[0].id).not.toBe(first.data.posts[1].id);
+    expect(await executor(POSTS, {})).toEqual(first);
+    expect(await createMockExecutor(schema, { seed: 7 })(POSTS, {})).toEqual(first);
+    expect(await createMockExecutor(schema, { seed: 8 })(POSTS, {})).not.toEqual(first);
+
+    // Values depend on their own response path only.
+    const titles = (await executor(`{ posts { title } }`, {})) as any;
+    expect(titles.data.posts.map((post: any) => post.title)).toEqual(
+      first.data.posts.map((post: any) => post.title),
+    );
+  });
+
+  it("applies list lengths, aliases and variables", async () => {
+    const executor = createMockExecutor(schema, { listLength: [1, 3] });
+    const result = (await executor(
+      `query($a: ID!, $b: ID!) { first: post(id: $a) { id } second: post(id: $b) { id } posts { id } }`,
+      { a: "1", b: "2" },
+    )) as any;
+
+    expect(result.data.first.id).not.toBe(result.data.second.id);
+    expect(result.data.posts.length).toBeGreaterThanOrEqual(1);
+    expect(result.data.posts.length).toBeLessThanOrEqual(3);
+  });
+
+  it("picks concrete types for unions and interfaces", async () => {
+    const executor = createMockExecutor(schema, { listLength: 6 });
+    const result = (await executor(
+      `{
+        node(id: "1") { __typename id }
+        search(text: "a") { __typename ... on User { name } ... on Post { title } }
+      }`,
+      {},
+    )) as any;
+
+    expect(["User", "Post"]).toContain(result.data.node.__typename);
+    for (const item of result.data.search) {
+      expect(item).toHaveProperty(item.__typename === "User" ? "name" : "title");
+    }
+  });
+
+  it("pins values with per-type resolvers", async () => {
+    const executor = createMockExecutor(schema, {
+      resolvers: {
+        DateTime: ({ path }) => `2024-01-01T00:00:00.000Z#${path.join(".")}`,
+        Query: () => ({
+          post: ({ id }: { id: string }) => ({ id }),
+          search: () => [{ __typename: "Post" }, { __typename: "User", name: "Ada" }],
+        }),
+        Post: () => ({ title: "Pinned", tags: [] }),
+        Node: () => ({ __typename: "User" }),
+      },
+    });
+    const result = (await executor(
+      `{
+        post(id: "p1") { id title tags publishedAt author { id } }
+        node(id: "1") { __typename }
+        search(text: "a") { __typename ... on User { name } ... on Post { title } }
+      }`,
+      {},
+    )) as any;
+
+    expect(result.data.post).toEqual({
+      id: "p1",
+      title: "Pinned",
+      tags: [],
+      publishedAt: "2024-01-01T00:00:00.000Z#post.publishedAt",
+      author: { id: expect.any(String) },
+    });
+    expect(result.data.node).toEqual({ __typename: "User" });
+    expect(result.data.search).toEqual([
+      { __typename: "Post", title: "Pinned" },
+      { __typename: "User", name: "Ada" },
+    ]);
+  });
+
+  it("reports invalid documents and unmocked custom scalars as errors", async () => {
+    const executor = createMockExecutor(schema);
+
+    const invalid = (await executor(`{ posts { missing } }`, {})) as any;
+    expect(invalid.data).toBeUndefined();
+    expect(invalid.errors[0].message).toContain("missing");
+
+    const unmocked = (await executor(`{ post(id: "1") { publishedAt } }`, {})) as any;
+    expect(unmocked.data).toEqual({ post: { publishedAt: null } });
+    expect(unmocked.errors[0].message).toContain("No mock for custom scalar 'DateTime'");
+  });
+
+  it("serializes errors without GraphQLError#toJSON, as on graphql 15", async () => {
+    const toJSON = Object.getOwnPropertyDescriptor(GraphQLError.prototype, "toJSON")!;
+    delete (GraphQLError.prototype as Partial<GraphQLError>).toJSON;
+    try {
+      const executor = createMockExecutor(schema);
+      expect(await executor(`{ posts { missing } }`, {})).toEqual({
+        errors: [
+          {
+            message: 'Cannot query field "missing" on type "Post".',
+            locations: [{ line: 1, column: 11 }],
+          },
+        ],
+      });
+      const unmocked = (await executor(`{ post(id: "1") { publishedAt } }`, {})) as any;
+      expect(unmocked.errors[0]).toEqual({
+        message: expect.stringContaining("No mock for custom scalar"),
+        locations: [{ line: 1, column: 19 }],
+        path: ["post", "publishedAt"],
+      });
+    } finally {
+      Object.defineProperty(GraphQLError.prototype, "toJSON", toJSON);
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { recordingExecutor, replayExecutor } from "../record-replay";
+
+const operation = (operationName?: string) =>
+  ({ operationName, operationType: "query", context: {} }) as any;
+
+describe("recordingExecutor / replayExecutor", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(await mkdtemp(join(tmpdir(), "typedgql-fixtures-")), "fixtures");
+  });
+
+  afterEach(async () => {
+    await rm(join(dir, ".."), { recursive: true, force: true });
+  });
+
+  it("records responses and replays them without the inner executor", async () => {
+    let calls = 0;
+    const recording = recordingExecutor(
+      async (_request, variables) => {
+        calls++;
+        return { data: { variables } };
+      },
+      { dir },
+    );
+    const request = "query Post($id: ID!) { post(id: $id) { id } }";
+
+    expect(await recording(request, { id: "p1" }, operation("Post"))).toEqual({
+      data: { variables: { id: "p1" } },
+    });
+    await recording(request, { id: "p2" }, operation("Post"));
+    await recording("{ viewer { id } }", {}, operation());
+    expect(calls).toBe(3);
+
+    const files = (await readdir(dir)).sort();
+    expect(files).toHaveLength(3);
+    expect(files[0]).toMatch(/^Post\.\w+\.json$/);
+    expect(files[2]).toMatch(/^anonymous\.\w+\.json$/);
+    const fixture = JSON.parse(await readFile(join(dir, files[0]!), "utf8"));
+    expect(fixture).toMatchObject({ operationName: "Post", request });
+
+    const replay = replayExecutor({ dir });
+    expect(await replay(request, { id: "p2" }, operation("Post"))).toEqual({
+      data: { variables: { id: "p2" } },
+    });
+    expect(await replay("{ viewer { id } }", {}, operation())).toEqual({
+      data: { variables: {} },
+    });
+  });
+
+  it("rejects when no fixture matches", async () => {
+    const replay = replayExecutor({ dir });
+
+    await expect(
+      replay("query Post($id: ID!) { post(id: $id) { id } }", { id: "p3" }, operation("Post")),
+    ).rejects.toThrow(/No fixture for operation 'Post'.*record it with recordingExecutor/);
+  });
+});
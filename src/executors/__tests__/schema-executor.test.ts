@@ -0,0 +1,136 @@
+import { buildSchema, GraphQLError } from "graphql";
+import { describe, expect, it } from "vitest";
+import { createSchemaExecutor, createSchemaSubscriber } from "../schema-executor";
+
+const schema = buildSchema(/* GraphQL */ `
+  type Query {
+    post(id: ID!): Post
+    viewer: String!
+  }
+
+  type Post {
+    id: ID!
+    title: String!
+  }
+
+  type Subscription {
+    ticks(count: Int!): Int!
+  }
+`);
+
+const operation = (context: Record<string, unknown> = {}) =>
+  ({ operationType: "query", context }) as any;
+
+describe("createSchemaExecutor", () => {
+  it("executes against the schema with root and context values", async () => {
+    const executor = createSchemaExecutor(schema, {
+      rootValue: {
+        post: ({ id }: { id: string }) => ({ id, title: `Post ${id}` }),
+        viewer: (_args: unknown, context: { user: string }) => context.user,
+      },
+      contextValue: (op: any) => ({ user: op?.context.user }),
+    });
+
+    expect(
+      await executor(
+        "query($id: ID!) { post(id: $id) { id title } viewer }",
+        { id: "p1" },
+        operation({ user: "Ada" }),
+      ),
+    ).toEqual({ data: { post: { id: "p1", title: "Post p1" }, viewer: "Ada" } });
+  });
+
+  it("answers invalid documents and resolver failures with errors", async () => {
+    const executor = createSchemaExecutor(schema, {
+      rootValue: {
+        post: () => {
+          throw new Error("boom");
+        },
+      },
+    });
+
+    const syntax = (await executor("{ post(", {})) as any;
+    expect(syntax.errors[0].message).toContain("Syntax Error");
+    const invalid = (await executor("{ missing }", {})) as any;
+    expect(invalid.errors[0].message).toContain("missing");
+    expect(await executor('{ post(id: "1") { id } }', {})).toEqual({
+      data: { post: null },
+      errors: [{ message: "boom", locations: [{ line: 1, column: 3 }], path: ["post"] }],
+    });
+  });
+
+  it("serializes errors without GraphQLError#toJSON, as on graphql 15", async () => {
+    const toJSON = Object.getOwnPropertyDescriptor(GraphQLError.prototype, "toJSON")!;
+    delete (GraphQLError.prototype as Partial<GraphQLError>).toJSON;
+    try {
+      const executor = createSchemaExecutor(schema, {
+        rootValue: {
+          post: () => {
+            throw new GraphQLError("boom", { extensions: { code: "BOOM" } });
+          },
+        },
+      });
+      expect(await executor("{ missing }", {})).toEqual({
+        errors: [
+          {
+            message: 'Cannot query field "missing" on type "Query".',
+            locations: [{ line: 1, column: 3 }],
+          },
+        ],
+      });
+      expect(await executor('{ post(id: "1") { id } }', {})).toEqual({
+        data: { post: null },
+        errors: [
+          {
+            message: "boom",
+            locations: [{ line: 1, column: 3 }],
+            path: ["post"],
+            extensions: { code: "BOOM" },
+          },
+        ],
+      });
+    } finally {
+      Object.defineProperty(GraphQLError.prototype, "toJSON", toJSON);
+    }
+  });
+});
+
+describe("createSchemaSubscriber", () => {
+  it("yields subscription events and ends the source stream on early exit", async () => {
+    let finished = false;
+    const subscriber = createSchemaSubscriber(schema, {
+      rootValue: {
+        ticks: async function* ({ count }: { count: number }) {
+          try {
+            for (let tick = 1; tick <= count; tick++) yield { ticks: tick };
+          } finally {
+            finished = true;
+          }
+        },
+      },
+    });
+
+    const events: unknown[] = [];
+    for await (const event of await subscriber(
+      "subscription { ticks(count: 5) }",
+      {},
+    )) {
+      events.push(event);
+      if (events.length === 2) break;
+    }
+
+    expect(events).toEqual([{ data: { ticks: 1 } }, { data: { ticks: 2 } }]);
+    expect(finished).toBe(true);
+  });
+
+  it("yields one error response when the subscription can't start", async () => {
+    const subscriber = createSchemaSubscriber(schema);
+    const events: any[] = [];
+    for await (const event of await subscriber("subscription { nope }", {})) {
+      events.push(event);
+    }
+
+    expect(events).toHaveLength(1);
+    expect(events[0].errors[0].message).toContain("nope");
+  });
+});
@@ -0,0 +1,56 @@
+import { GraphQLError, parse, validate } from "graphql";
+import type { DocumentNode, GraphQLSchema } from "graphql";
+
+/**
+ * Parses and validates request texts against `schema`, once per text.
+ * Syntax and validation errors are returned instead of thrown so executors
+ * can answer with an `errors` response like a server would.
+ */
+export const createDocumentCache = (
+  schema: GraphQLSchema,
+): ((request: string) => DocumentNode | readonly GraphQLError[]) => {
+  const documents = new Map<string, DocumentNode | readonly GraphQLError[]>();
+  return (request) => {
+    let document = documents.get(request);
+    if (document === undefined) {
+      document = parseAndValidate(schema, request);
+      documents.set(request, document);
+    }
+    return document;
+  };
+};
+
+/**
+ * Errors in their JSON form, as a server sends them. Copied by hand:
+ * `GraphQLError#toJSON` only exists since graphql 16.
+ */
+export const serializeErrors = (
+  errors: readonly GraphQLError[],
+): Record<string, unknown>[] =>
+  errors.map((error) => ({
+    message: error.message,
+    ...(error.locations !== undefined ? { locations: error.locations } : undefined),
+    ...(error.path !== undefined ? { path: error.path } : undefined),
+    ...(error.extensions !== undefined && Object.keys(error.extensions).length !== 0
+      ? { extensions: error.extensions }
+      : undefined),
+  }));
+
+export const isDocument = (
+  value: DocumentNode | readonly GraphQLError[],
+): value is DocumentNode => !Array.isArray(value);
+
+const parseAndValidate = (
+  schema: GraphQLSchema,
+  request: string,
+): DocumentNode | readonly GraphQLError[] => {
+  let document: DocumentNode;
+  try {
+    document = parse(request);
+  } catch (error) {
+    if (error instanceof GraphQLError) return [error];
+    throw error;
+  }
+  const errors = validate(schema, document);
+  return errors.length !== 0 ? errors : document;
+};
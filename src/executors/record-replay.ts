@@ -0,0 +1,102 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { cyrb53 } from "../runtime/cyrb53";
+import type { GraphQLExecutor, GraphQLOperation } from "../runtime/executor";
+import { stableStringify } from "../runtime/stable-stringify";
+
+// ─── Record & replay ──────────────────────────────────────────────────
+
+export interface FixtureExecutorOptions {
+  /** Directory holding the fixture files; created on the first recording. */
+  readonly dir: string;
+}
+
+/** Content of one fixture file. */
+export interface ExecutorFixture {
+  readonly operationName?: string;
+  readonly request: string;
+  readonly variables: Record<string, unknown>;
+  readonly response: unknown;
+}
+
+/**
+ * Wraps `inner` and writes every operation it answers to a fixture file in
+ * `dir`, to be served later by {@link replayExecutor}.
+ *
+ * Files are named `<operationName>.<hash>.json`, the hash covering the
+ * document text and the variables, so each distinct call gets its own file and
+ * recording again overwrites it. Incremental (`@defer`/`@stream`) streams are
+ * passed on without being recorded.
+ *
+ * @example
+ * ```ts
+ * const executor = process.env.RECORD
+ *   ? recordingExecutor(createHttpExecutor({ url }), { dir: "__fixtures__" })
+ *   : replayExecutor({ dir: "__fixtures__" });
+ * ```
+ */
+export const recordingExecutor = (
+  inner: GraphQLExecutor,
+  options: FixtureExecutorOptions,
+): GraphQLExecutor => {
+  return async (request, variables, operation) => {
+    const response = await inner(request, variables, operation);
+    if (isAsyncIterable(response)) return response;
+    const fixture: ExecutorFixture = {
+      operationName: operation?.operationName,
+      request,
+      variables,
+      response,
+    };
+    await mkdir(options.dir, { recursive: true });
+    await writeFile(
+      join(options.dir, fixtureFileName(request, variables, operation)),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+    );
+    return response;
+  };
+};
+
+/**
+ * Executor answering operations from the fixture files written by
+ * {@link recordingExecutor}; rejects when no fixture matches the document
+ * text and variables of an operation.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(replayExecutor({ dir: join(__dirname, "__fixtures__") }));
+ * ```
+ */
+export const replayExecutor = (options: FixtureExecutorOptions): GraphQLExecutor => {
+  return async (request, variables, operation) => {
+    const fileName = fixtureFileName(request, variables, operation);
+    let content: string;
+    try {
+      content = await readFile(join(options.dir, fileName), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      const name = operation?.operationName ?? ANONYMOUS;
+      throw new Error(
+        `No fixture for operation '${name}' with these variables: '${fileName}' ` +
+          `does not exist in '${options.dir}'; record it with recordingExecutor`,
+      );
+    }
+    return (JSON.parse(content) as ExecutorFixture).response;
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const ANONYMOUS = "anonymous";
+
+const fixtureFileName = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation: GraphQLOperation | undefined,
+): string => {
+  const name = (operation?.operationName ?? ANONYMOUS).replace(/[^\w-]/g, "_");
+  return `${name}.${cyrb53(`${request}\n${stableStringify(variables)}`)}.json`;
+};
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof (value as AsyncIterable<unknown> | null)?.[Symbol.asyncIterator] === "function";
@@ -0,0 +1,122 @@
+import { execute, subscribe } from "graphql";
+import type { ExecutionResult, GraphQLSchema } from "graphql";
+import type {
+  GraphQLExecutor,
+  GraphQLOperation,
+  GraphQLSubscriber,
+} from "../runtime/executor";
+import { createDocumentCache, isDocument, serializeErrors } from "./documents";
+
+// ─── In-process schema executors ──────────────────────────────────────
+
+export interface SchemaExecutorOptions {
+  /** Root value passed to the resolvers of root fields. */
+  readonly rootValue?: unknown;
+  /**
+   * Context passed to every resolver. A function is called once per
+   * operation, e.g. to read per-request values from `operation.context`.
+   */
+  readonly contextValue?: unknown | ((operation: GraphQLOperation | undefined) => unknown);
+}
+
+/**
+ * Creates an executor running operations in process against `schema` with
+ * graphql-js `execute`, for SSR, scripts and tests without HTTP.
+ *
+ * Documents are parsed and validated once per request text; invalid ones
+ * resolve to a response with `errors` like a server would. Errors are
+ * returned in their JSON form.
+ *
+ * @example
+ * ```ts
+ * const executor = createSchemaExecutor(schema, {
+ *   rootValue: resolvers,
+ *   contextValue: (operation) => ({ user: operation?.context.user }),
+ * });
+ * const data = await execute(viewerQuery, { executor });
+ * ```
+ */
+export const createSchemaExecutor = (
+  schema: GraphQLSchema,
+  options: SchemaExecutorOptions = {},
+): GraphQLExecutor => {
+  const documentOf = createDocumentCache(schema);
+  return async (request, variables, operation) => {
+    operation?.signal?.throwIfAborted();
+    const document = documentOf(request);
+    if (!isDocument(document)) return toResponse({ errors: document });
+    return toResponse(
+      await execute({
+        schema,
+        document,
+        rootValue: options.rootValue,
+        contextValue: contextOf(options, operation),
+        variableValues: variables,
+        operationName: operation?.operationName,
+      }),
+    );
+  };
+};
+
+/**
+ * Creates a subscriber running subscriptions in process against `schema`
+ * with graphql-js `subscribe`. The resolver of the subscription root field
+ * returns the source `AsyncIterable`, as in any graphql-js server.
+ *
+ * Invalid documents and subscriptions failing to start yield one response
+ * with `errors`.
+ *
+ * @example
+ * ```ts
+ * setGraphQLSubscriber(createSchemaSubscriber(schema, { rootValue: resolvers }));
+ * ```
+ */
+export const createSchemaSubscriber = (
+  schema: GraphQLSchema,
+  options: SchemaExecutorOptions = {},
+): GraphQLSubscriber => {
+  const documentOf = createDocumentCache(schema);
+  return async function* (request, variables, operation) {
+    operation?.signal?.throwIfAborted();
+    const document = documentOf(request);
+    if (!isDocument(document)) {
+      yield toResponse({ errors: document });
+      return;
+    }
+    const result = await subscribe({
+      schema,
+      document,
+      rootValue: options.rootValue,
+      contextValue: contextOf(options, operation),
+      variableValues: variables,
+      operationName: operation?.operationName,
+    });
+    if (!(Symbol.asyncIterator in result)) {
+      yield toResponse(result);
+      return;
+    }
+    // Returning from the generator (for-await exit, abort) returns `result`,
+    // which ends the source stream of the subscription resolver.
+    for await (const event of result) {
+      yield toResponse(event);
+    }
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const contextOf = (
+  options: SchemaExecutorOptions,
+  operation: GraphQLOperation | undefined,
+): unknown =>
+  typeof options.contextValue === "function"
+    ? (options.contextValue as (operation: GraphQLOperation | undefined) => unknown)(operation)
+    : options.contextValue;
+
+// Errors become plain objects, as they would be on the wire.
+const toResponse = (result: ExecutionResult): Record<string, unknown> => ({
+  ...result,
+  ...(result.errors !== undefined
+    ? { errors: serializeErrors(result.errors) }
+    : undefined),
+});
@@ -33,6 +33,13 @@ export {
 export { SelectionImpl as SelectionNode } from "./runtime/selection";
 export { withOperationName } from "./runtime/selection";
 export { createSelection } from "./runtime/proxy";
+export { buildOperationDocument } from "./runtime/document";
+export type {
+  CombinedSelection,
+  CombinedShape,
+  CombinedVariables,
+} from "./runtime/combine";
+export { combine } from "./runtime/combine";
 
 // ─── Parameters & Options ─────────────────────────────────────────────
 export type {
@@ -52,8 +59,74 @@ export type {
 } from "./runtime/enum-metadata";
 export { EnumInputMetadataBuilder } from "./runtime/enum-metadata";
 
+// ─── Scalar codecs ───────────────────────────────────────────────────
+export type { ScalarCodec } from "./runtime/scalar-codecs";
+export {
+  registerScalarCodecs,
+  decodeScalars,
+  encodeScalars,
+  encodeScalarVariables,
+} from "./runtime/scalar-codecs";
+
+// ─── Executors & middleware ──────────────────────────────────────────
+export type {
+  GraphQLOperation,
+  GraphQLOperationType,
+  GraphQLExecutor,
+  GraphQLSubscriber,
+  GraphQLMiddleware,
+  GraphQLExecutorMiddleware,
+  GraphQLSubscriberMiddleware,
+} from "./runtime/executor";
+export { composeExecutor, composeSubscriber } from "./runtime/executor";
+export { dedupeExecutor } from "./runtime/dedupe";
+export type { PersistedQueryOptions } from "./runtime/persisted-queries";
+export {
+  persistedQueryExecutor,
+  persistedDocumentExecutor,
+} from "./runtime/persisted-queries";
+export type {
+  ResponsePath,
+  ResponseShapeMismatch,
+  ResponseValidationOptions,
+} from "./runtime/response-validation";
+export {
+  validateResponseShape,
+  validateResponseExecutor,
+  validateResponseSubscriber,
+  ResponseShapeError,
+} from "./runtime/response-validation";
+
+// ─── Transports ──────────────────────────────────────────────────────
+export type { HttpExecutorOptions, HttpHeaders } from "./runtime/http-executor";
+export { createHttpExecutor, GraphQLHttpError } from "./runtime/http-executor";
+export type { BatchHttpExecutorOptions } from "./runtime/batch-executor";
+export { createBatchHttpExecutor } from "./runtime/batch-executor";
+export type { ExtractedFiles } from "./runtime/multipart";
+export { extractFiles, createMultipartBody } from "./runtime/multipart";
+export type { IncrementalResult } from "./runtime/incremental";
+export {
+  mergeIncrementalPayloads,
+  readMultipartMixed,
+} from "./runtime/incremental";
+export type {
+  WebSocketLike,
+  WebSocketConstructor,
+  ConnectionParams,
+  WebSocketSubscriberOptions,
+} from "./runtime/websocket-subscriber";
+export { createWebSocketSubscriber } from "./runtime/websocket-subscriber";
+export type { SseSubscriberOptions } from "./runtime/sse-subscriber";
+export { createSseSubscriber } from "./runtime/sse-subscriber";
+
+// ─── Cache ───────────────────────────────────────────────────────────
+export type { CacheInvalidationTarget } from "./runtime/cache";
+export { NormalizedCache } from "./runtime/cache";
+
 // ─── TextBuilder ─────────────────────────────────────────────────────
 export { TextBuilder } from "./runtime/text-builder";
 
 // ─── Utilities ───────────────────────────────────────────────────────
 export { cyrb53 } from "./runtime/cyrb53";
+export type { AsyncQueue } from "./runtime/async-queue";
+export { createAsyncQueue } from "./runtime/async-queue";
@@ -2,9 +2,26 @@
  * Node-only entry point:
  * - code generation APIs
  * - schema loaders
+ * - in-process executors (local schemas, mocks, fixtures)
  *
  * Import as: `@ptdgrp/typedgql/node`
  */
 export { Generator } from "./codegen/generator";
 export type { CodegenOptions } from "./codegen/options";
 export { loadRemoteSchema, loadLocalSchema } from "./codegen/schema-loader";
+export type {
+  MockContext,
+  MockResolvers,
+  MockExecutorOptions,
+} from "./executors/mock-executor";
+export { createMockExecutor } from "./executors/mock-executor";
+export type {
+  FixtureExecutorOptions,
+  ExecutorFixture,
+} from "./executors/record-replay";
+export { recordingExecutor, replayExecutor } from "./executors/record-replay";
+export type { SchemaExecutorOptions } from "./executors/schema-executor";
+export {
+  createSchemaExecutor,
+  createSchemaSubscriber,
+} from "./executors/schema-executor";
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { createBatchHttpExecutor } from "../batch-executor";
+import { GraphQLHttpError } from "../http-executor";
+
+function batchingFetch(
+  respond: (operations: { query: string }[]) => Response = (operations) =>
+    Response.json(operations.map((op) => ({ data: { echo: op.query } }))),
+) {
+  const calls: { url: string; init: RequestInit; operations: any[] }[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    const operations = JSON.parse(init.body as string);
+    calls.push({ url, init, operations });
+    return respond(operations);
+  }) as unknown as typeof globalThis.fetch;
+  return { calls, fetch };
+}
+
+describe("createBatchHttpExecutor", () => {
+  it("sends operations of the same tick as one JSON array", async () => {
+    const { calls, fetch } = batchingFetch();
+    const executor = createBatchHttpExecutor({
+      url: "/graphql",
+      headers: { authorization: "Bearer a" },
+      fetch,
+    });
+
+    const results = await Promise.all([
+      executor("{ a }", {}),
+      executor("{ b }", { id: "1" }),
+      executor("{ c }", {}),
+    ]);
+
+    expect(results).toEqual([
+      { data: { echo: "{ a }" } },
+      { data: { echo: "{ b }" } },
+      { data: { echo: "{ c }" } },
+    ]);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.init.method).toBe("POST");
+    expect(calls[0]!.init.headers).toEqual({
+      "content-type": "application/json",
+      accept: "application/json",
+      authorization: "Bearer a",
+    });
+    expect(calls[0]!.operations).toEqual([
+      { query: "{ a }" },
+      { query: "{ b }", variables: { id: "1" } },
+      { query: "{ c }" },
+    ]);
+  });
+
+  it("splits batches by maxBatchSize and batch window", async () => {
+    const { calls, fetch } = batchingFetch();
+    const executor = createBatchHttpExecutor({
+      url: "/graphql",
+      maxBatchSize: 2,
+      batchWindowMs: 20,
+      fetch,
+    });
+
+    const first = Promise.all([executor("{ a }", {}), executor("{ b }", {})]);
+    const third = executor("{ c }", {});
+    await first;
+    expect(calls.map((c) => c.operations.length)).toEqual([2]);
+
+    await third;
+    expect(calls.map((c) => c.operations.length)).toEqual([2, 1]);
+  });
+
+  it("keeps GraphQL errors with their own operation", async () => {
+    const { fetch } = batchingFetch(() =>
+      Response.json([
+        { data: { a: 1 } },
+        { errors: [{ message: "boom" }] },
+        { unexpected: true },
+      ]),
+    );
+    const executor = createBatchHttpExecutor({ url: "/graphql", fetch });
+
+    const [a, b, c] = await Promise.allSettled([
+      executor("{ a }", {}),
+      executor("{ b }", {}),
+      executor("{ c }", {}),
+    ]);
+
+    expect(a).toEqual({ status: "fulfilled", value: { data: { a: 1 } } });
+    expect(b).toEqual({
+      status: "fulfilled",
+      value: { errors: [{ message: "boom" }] },
+    });
+    expect(c.status).toBe("rejected");
+    expect((c as PromiseRejectedResult).reason).toBeInstanceOf(GraphQLHttpError);
+  });
+
+  it("rejects the whole batch on transport failures", async () => {
+    const { fetch } = batchingFetch(() => new Response("down", { status: 503 }));
+    const executor = createBatchHttpExecutor({ url: "/graphql", fetch });
+
+    const results = await Promise.allSettled([
+      executor("{ a }", {}),
+      executor("{ b }", {}),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+  });
+
+  it("drops aborted operations from a pending batch", async () => {
+    const { calls, fetch } = batchingFetch();
+    const executor = createBatchHttpExecutor({ url: "/graphql", fetch });
+    const controller = new AbortController();
+    const operation = { signal: controller.signal, context: {} } as any;
+
+    const aborted = executor("{ a }", {}, operation);
+    const kept = executor("{ b }", {});
+    controller.abort(new Error("cancelled"));
+
+    await expect(aborted).rejects.toThrow("cancelled");
+    expect(await kept).toEqual({ data: { echo: "{ b }" } });
+    expect(calls[0]!.operations).toEqual([{ query: "{ b }" }]);
+  });
+
+  it("sends operations with files on their own as multipart requests", async () => {
+    const { calls, fetch } = batchingFetch();
+    const uploads: RequestInit[] = [];
+    const executor = createBatchHttpExecutor({
+      url: "/graphql",
+      fetch: (async (url: string, init: RequestInit) => {
+        if (init.body instanceof FormData) {
+          uploads.push(init);
+          return Response.json({ data: { upload: true } });
+        }
+        return fetch(url, init);
+      }) as unknown as typeof globalThis.fetch,
+    });
+
+    const [upload] = await Promise.all([
+      executor("mutation($f: Upload!) { upload(file: $f) }", {
+        f: new Blob(["x"]),
+      }),
+      executor("{ a }", {}),
+    ]);
+
+    expect(upload).toEqual({ data: { upload: true } });
+    expect(uploads).toHaveLength(1);
+    expect(calls[0]!.operations).toEqual([{ query: "{ a }" }]);
+  });
+});
@@ -0,0 +1,318 @@
+import { describe, expect, it } from "vitest";
+import { NormalizedCache } from "../cache";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { ParameterRef } from "../parameter";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+const userType = createSchemaType("CacheUser", "OBJECT", [], [
+  { name: "id", category: "ID" },
+  "name",
+]);
+const postType = createSchemaType("CachePost", "OBJECT", [], [
+  { name: "id", category: "ID" },
+  "title",
+  { name: "author", category: "REFERENCE", targetTypeName: "CacheUser" },
+]);
+const queryType = createSchemaType("Query", "OBJECT", [], [
+  {
+    name: "post",
+    category: "REFERENCE",
+    targetTypeName: "CachePost",
+    argGraphQLTypeMap: { id: "ID!" },
+  },
+  { name: "posts", category: "LIST", targetTypeName: "CachePost" },
+  { name: "settings", category: "REFERENCE", targetTypeName: "CacheSettings" },
+]);
+const settingsType = createSchemaType("CacheSettings", "OBJECT", [], [
+  "theme",
+  "locale",
+]);
+const mutationType = createSchemaType("Mutation", "OBJECT", [], [
+  { name: "renamePost", category: "REFERENCE", targetTypeName: "CachePost" },
+]);
+
+function createRoot(schemaType: ReturnType<typeof createSchemaType>) {
+  return new SelectionImpl(
+    [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+    false,
+    "",
+  );
+}
+
+const author = () => createRoot(userType).addField("id").addField("name");
+const post = () =>
+  createRoot(postType)
+    .addField("id")
+    .addField("title")
+    .addField("author", undefined, author());
+
+describe("NormalizedCache", () => {
+  it("reads back a query it has written", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    const data = {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    };
+
+    expect(cache.read(query, {})).toBeUndefined();
+    cache.write(query, {}, data);
+    expect(cache.read(query, {})).toEqual(data);
+  });
+
+  it("shares entities between queries and variable/literal arguments", () => {
+    const cache = new NormalizedCache();
+    const byVariable = createRoot(queryType).addField(
+      "post",
+      { id: ParameterRef.of("id") },
+      post(),
+    );
+    const list = createRoot(queryType).addField("posts", undefined, post());
+    cache.write(byVariable, { id: "p1" }, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+    cache.write(list, {}, {
+      posts: [{ id: "p1", title: "Renamed", author: { id: "u1", name: "Ann" } }],
+    });
+
+    const byLiteral = createRoot(queryType).addField("post", { id: "p1" }, post());
+    expect(cache.read(byLiteral, {})).toEqual({
+      post: { id: "p1", title: "Renamed", author: { id: "u1", name: "Ann" } },
+    });
+    expect(cache.read(byVariable, { id: "p2" })).toBeUndefined();
+  });
+
+  it("returns undefined when a selected field is missing", () => {
+    const cache = new NormalizedCache();
+    const partial = createRoot(queryType).addField(
+      "post",
+      { id: "p1" },
+      createRoot(postType).addField("id"),
+    );
+    cache.write(partial, {}, { post: { id: "p1" } });
+
+    const full = createRoot(queryType).addField("post", { id: "p1" }, post());
+    expect(cache.read(partial, {})).toEqual({ post: { id: "p1" } });
+    expect(cache.read(full, {})).toBeUndefined();
+  });
+
+  it("keys store fields by name, not alias", () => {
+    const cache = new NormalizedCache();
+    const aliased = createRoot(queryType).addField(
+      "post",
+      { id: "p1" },
+      createRoot(postType)
+        .addField("id")
+        .addField("title", undefined, undefined, {
+          alias: "heading",
+          directives: new Map(),
+        }),
+    );
+    cache.write(aliased, {}, { post: { id: "p1", heading: "Hello" } });
+
+    const plain = createRoot(queryType).addField(
+      "post",
+      { id: "p1" },
+      createRoot(postType).addField("id").addField("title"),
+    );
+    expect(cache.read(plain, {})).toEqual({ post: { id: "p1", title: "Hello" } });
+  });
+
+  it("merges embedded objects without ids", () => {
+    const cache = new NormalizedCache();
+    const theme = createRoot(queryType).addField(
+      "settings",
+      undefined,
+      createRoot(settingsType).addField("theme"),
+    );
+    const locale = createRoot(queryType).addField(
+      "settings",
+      undefined,
+      createRoot(settingsType).addField("locale"),
+    );
+    cache.write(theme, {}, { settings: { theme: "dark" } });
+    cache.write(locale, {}, { settings: { locale: "en" } });
+
+    const both = createRoot(queryType).addField(
+      "settings",
+      undefined,
+      createRoot(settingsType).addField("theme").addField("locale"),
+    );
+    expect(cache.read(both, {})).toEqual({
+      settings: { theme: "dark", locale: "en" },
+    });
+  });
+
+  it("updates entities from mutation results without caching the mutation", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+
+    const mutation = createRoot(mutationType).addField(
+      "renamePost",
+      undefined,
+      createRoot(postType).addField("id").addField("title"),
+    );
+    cache.write(mutation, {}, { renamePost: { id: "p1", title: "Renamed" } });
+
+    expect(cache.read(mutation, {})).toBeUndefined();
+    expect(cache.read(query, {})).toEqual({
+      post: { id: "p1", title: "Renamed", author: { id: "u1", name: "Ann" } },
+    });
+  });
+
+  it("reads fragment spreads and skips fields excluded by @include", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField(
+      "post",
+      { id: "p1" },
+      createRoot(postType)
+        .addField("id")
+        .addEmbeddable(createRoot(postType).addField("title"), "PostTitle")
+        .addField("author", undefined, author(), {
+          directives: new Map([["include", { if: ParameterRef.of("withAuthor") }]]),
+        }),
+    );
+    cache.write(query, { withAuthor: false }, { post: { id: "p1", title: "Hello" } });
+
+    expect(cache.read(query, { withAuthor: false })).toEqual({
+      post: { id: "p1", title: "Hello" },
+    });
+    expect(cache.read(query, { withAuthor: true })).toBeUndefined();
+  });
+
+  it("clear drops every record", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: null },
+    });
+    expect(cache.read(query, {})).toEqual({
+      post: { id: "p1", title: "Hello", author: null },
+    });
+
+    cache.clear();
+    expect(cache.read(query, {})).toBeUndefined();
+  });
+
+  it("notifies watchers when what they read changes", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    const titles = createRoot(queryType).addField(
+      "posts",
+      undefined,
+      createRoot(postType).addField("id").addField("title"),
+    );
+    const seen: unknown[] = [];
+    const stop = cache.watch(query, {}, (data) => seen.push(data));
+
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+    // Unchanged values and entities the query does not reach are no change.
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+    cache.write(titles, {}, { posts: [{ id: "p2", title: "Other" }] });
+    expect(seen).toHaveLength(1);
+
+    // A change to a shared entity through a mutation.
+    cache.write(
+      createRoot(mutationType).addField(
+        "renamePost",
+        undefined,
+        createRoot(postType).addField("id").addField("title"),
+      ),
+      {},
+      { renamePost: { id: "p1", title: "Renamed" } },
+    );
+    expect(seen.at(-1)).toEqual({
+      post: { id: "p1", title: "Renamed", author: { id: "u1", name: "Ann" } },
+    });
+
+    cache.clear();
+    expect(seen.at(-1)).toBeUndefined();
+    expect(seen).toHaveLength(3);
+
+    stop();
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Again", author: null },
+    });
+    expect(seen).toHaveLength(3);
+  });
+
+  it("reads optimistic layers over the store until they are removed", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    const rename = createRoot(mutationType).addField(
+      "renamePost",
+      undefined,
+      createRoot(postType).addField("id").addField("title"),
+    );
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+    const seen: unknown[] = [];
+    cache.watch(query, {}, (data) => seen.push(data));
+
+    const rollback = cache.writeOptimistic(rename, {}, {
+      renamePost: { id: "p1", title: "Predicted" },
+    });
+    expect(seen.at(-1)).toEqual({
+      post: { id: "p1", title: "Predicted", author: { id: "u1", name: "Ann" } },
+    });
+
+    // Store writes stay underneath the layer, fields it doesn't hold show through.
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Bob" } },
+    });
+    expect(cache.read(query, {})).toEqual({
+      post: { id: "p1", title: "Predicted", author: { id: "u1", name: "Bob" } },
+    });
+
+    rollback();
+    expect(seen.at(-1)).toEqual({
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Bob" } },
+    });
+
+    // Written before the layer is removed, the real result replaces it in one step.
+    const replace = cache.writeOptimistic(rename, {}, {
+      renamePost: { id: "p1", title: "Predicted" },
+    });
+    cache.write(rename, {}, { renamePost: { id: "p1", title: "Renamed" } });
+    replace();
+    expect(seen.map((data) => (data as { post: { title: string } }).post.title)).toEqual([
+      "Predicted",
+      "Predicted",
+      "Hello",
+      "Predicted",
+      "Renamed",
+    ]);
+  });
+
+  it("invalidates entities by type or by id", () => {
+    const cache = new NormalizedCache();
+    const query = createRoot(queryType).addField("post", { id: "p1" }, post());
+    const titles = createRoot(queryType).addField(
+      "posts",
+      undefined,
+      createRoot(postType).addField("id").addField("title"),
+    );
+    cache.write(query, {}, {
+      post: { id: "p1", title: "Hello", author: { id: "u1", name: "Ann" } },
+    });
+    cache.write(titles, {}, { posts: [{ id: "p2", title: "Other" }] });
+    const seen: unknown[] = [];
+    cache.watch(titles, {}, (data) => seen.push(data));
+
+    cache.invalidate({ typename: "CacheUser", id: "u1" });
+    expect(cache.read(query, {})).toBeUndefined();
+    expect(seen).toHaveLength(0);
+
+    cache.invalidate("CachePost");
+    expect(cache.read(titles, {})).toBeUndefined();
+    expect(seen).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,97 @@
+import { parse } from "graphql";
+import { describe, expect, it } from "vitest";
+import { combine } from "../combine";
+import { buildOperationDocument } from "../document";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { ParameterRef } from "../parameter";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+function createRoot(schemaType: ReturnType<typeof createSchemaType>) {
+  return new SelectionImpl(
+    [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+    false,
+    "",
+  );
+}
+
+const queryType = createSchemaType("Query", "OBJECT", [], [
+  "version",
+  { name: "search", category: "SCALAR", argGraphQLTypeMap: { text: "String!" } },
+]);
+
+describe("combine", () => {
+  it("renames shared variables in arguments and directives", () => {
+    const search = (text: string) =>
+      createRoot(queryType)
+        .addField("search", { text: ParameterRef.of(text) }, undefined, {
+          directives: new Map([["include", { if: ParameterRef.of("on", "Boolean!") }]]),
+        })
+        .addField("version");
+    const combined = combine({ a: search("text"), b: search("text") });
+
+    const document = buildOperationDocument(combined.selection);
+    expect(() => parse(document)).not.toThrow();
+    expect(document).toBe(
+      "query (\n" +
+        "\t$text: String!, \n\t$on: Boolean!, \n\t$b_text: String!, \n\t$b_on: Boolean!\n" +
+        ") {\n" +
+        "\tsearch(text: $text)\n\t@include(if: $on)\n" +
+        "\tversion\n" +
+        "\tb_search: search(text: $b_text)\n\t@include(if: $b_on)\n" +
+        "\tb_version: version\n" +
+        "}\n",
+    );
+    expect(
+      combined.variables({ a: { text: "x", on: true }, b: { text: "y", on: false } }),
+    ).toEqual({
+      text: "x",
+      on: true,
+      b_text: "y",
+      b_on: false,
+    });
+    expect(
+      combined.split({ search: 1, version: "v", b_search: 2, b_version: "v" }),
+    ).toEqual({ a: { search: 1, version: "v" }, b: { search: 2, version: "v" } });
+  });
+
+  it("keeps existing aliases and picks unused ones", () => {
+    const a = createRoot(queryType)
+      .addField("version")
+      .addField("version", undefined, undefined, {
+        alias: "b_version",
+        directives: new Map(),
+      });
+    const b = createRoot(queryType).addField("version");
+    const combined = combine({ a, b });
+
+    expect(combined.selection.toString()).toBe(
+      "{\n\tversion\n\tb_version: version\n\tb_version_2: version\n}\n",
+    );
+    expect(
+      combined.split({ version: "1", b_version: "2", b_version_2: "3" }),
+    ).toEqual({
+      a: { version: "1", b_version: "2" },
+      b: { version: "3" },
+    });
+  });
+
+  it("rejects mixed operation types and colliding root fragments", () => {
+    const mutationType = createSchemaType("Mutation", "OBJECT", [], ["version"]);
+    expect(() =>
+      combine({
+        a: createRoot(queryType).addField("version"),
+        b: createRoot(mutationType).addField("version") as any,
+      }),
+    ).toThrow("Cannot combine 'b' (Mutation) with Query selections");
+
+    const spread = createRoot(queryType).addEmbeddable(
+      createRoot(queryType).addField("version"),
+    );
+    expect(() =>
+      combine({ a: createRoot(queryType).addField("version"), b: spread }),
+    ).toThrow(
+      "Cannot combine 'b': its root fragment selects 'version', which is also selected by 'a'",
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { dedupeExecutor } from "../dedupe";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { composeExecutor } from "../executor";
+import type { GraphQLOperation } from "../executor";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+function createOperation(
+  overrides: Partial<GraphQLOperation> = {},
+): GraphQLOperation {
+  const schemaType = createSchemaType("DedupeQuery", "OBJECT", [], ["id"]);
+  const runtime = new SelectionImpl(
+    [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+    false,
+    "",
+  ).addField("id");
+  return {
+    request: "query Op($a: Int, $b: Int) { id }",
+    variables: {},
+    operationName: "Op",
+    operationType: "query",
+    runtime,
+    context: {},
+    ...overrides,
+  };
+}
+
+const call = (
+  executor: ReturnType<typeof composeExecutor>,
+  operation: GraphQLOperation,
+) => executor(operation.request, operation.variables, operation);
+
+function deferred() {
+  let resolve!: (value: unknown) => void;
+  const promise = new Promise<unknown>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("dedupeExecutor", () => {
+  it("shares one call between concurrent identical queries", async () => {
+    const pending = deferred();
+    let calls = 0;
+    const executor = composeExecutor(dedupeExecutor(), () => {
+      calls++;
+      return pending.promise;
+    });
+
+    const first = call(executor, createOperation({ variables: { a: 1, b: 2 } }));
+    const second = call(executor, createOperation({ variables: { b: 2, a: 1 } }));
+    pending.resolve({ data: { id: "1" } });
+
+    expect(await first).toBe(await second);
+    expect(calls).toBe(1);
+
+    await call(executor, createOperation({ variables: { a: 1, b: 2 } }));
+    expect(calls).toBe(2);
+  });
+
+  it("keeps different variables and mutations apart", async () => {
+    let calls = 0;
+    const executor = composeExecutor(dedupeExecutor(), async () => {
+      calls++;
+      return { data: {} };
+    });
+
+    await Promise.all([
+      call(executor, createOperation({ variables: { a: 1 } })),
+      call(executor, createOperation({ variables: { a: 2 } })),
+      call(executor, createOperation({ operationType: "mutation" })),
+      call(executor, createOperation({ operationType: "mutation" })),
+    ]);
+    expect(calls).toBe(4);
+  });
+
+  it("aborts the shared call only after every caller aborts", async () => {
+    let sharedSignal: AbortSignal | undefined;
+    const executor = composeExecutor(
+      dedupeExecutor(),
+      (_request, _variables, operation) => {
+        sharedSignal = operation?.signal;
+        return new Promise((_, reject) =>
+          operation?.signal?.addEventListener("abort", () =>
+            reject(operation.signal!.reason),
+          ),
+        );
+      },
+    );
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = call(executor, createOperation({ signal: a.signal }));
+    const second = call(executor, createOperation({ signal: b.signal }));
+    a.abort(new Error("a"));
+    expect(sharedSignal?.aborted).toBe(false);
+
+    b.abort(new Error("b"));
+    expect(sharedSignal?.aborted).toBe(true);
+    await expect(first).rejects.toThrow("b");
+    await expect(second).rejects.toThrow("b");
+  });
+
+  it("never aborts a call shared with a caller without a signal", async () => {
+    const pending = deferred();
+    let sharedSignal: AbortSignal | undefined;
+    const executor = composeExecutor(
+      dedupeExecutor(),
+      (_request, _variables, operation) => {
+        sharedSignal = operation?.signal;
+        return pending.promise;
+      },
+    );
+    const controller = new AbortController();
+
+    const cancellable = call(executor, createOperation({ signal: controller.signal }));
+    const pinned = call(executor, createOperation());
+    controller.abort();
+    expect(sharedSignal?.aborted).toBe(false);
+
+    pending.resolve({ data: { id: "1" } });
+    await expect(pinned).resolves.toEqual({ data: { id: "1" } });
+    await expect(cancellable).resolves.toEqual({ data: { id: "1" } });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { composeExecutor, composeSubscriber } from "../executor";
+import type {
+  GraphQLExecutorMiddleware,
+  GraphQLMiddleware,
+  GraphQLOperation,
+} from "../executor";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+function createOperation(
+  overrides: Partial<GraphQLOperation> = {},
+): GraphQLOperation {
+  const schemaType = createSchemaType("ExecutorQuery", "OBJECT", [], ["id"]);
+  const runtime = new SelectionImpl(
+    [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+    false,
+    "",
+  ).addField("id");
+  return {
+    request: "query Op { id }",
+    variables: {},
+    operationName: "Op",
+    operationType: "query",
+    runtime,
+    context: {},
+    ...overrides,
+  };
+}
+
+const withHeader =
+  (name: string, value: string) =>
+  <TResponse>(
+    operation: GraphQLOperation,
+    next: (operation: GraphQLOperation) => TResponse,
+  ): TResponse =>
+    next({
+      ...operation,
+      context: {
+        ...operation.context,
+        headers: {
+          ...(operation.context.headers as Record<string, string> | undefined),
+          [name]: value,
+        },
+      },
+    });
+
+describe("composeExecutor", () => {
+  it("runs middleware left to right before the executor", async () => {
+    const calls: string[] = [];
+    const tracing =
+      (label: string): GraphQLExecutorMiddleware =>
+      async (operation, next) => {
+        calls.push(`${label}:before`);
+        const response = await next(operation);
+        calls.push(`${label}:after`);
+        return response;
+      };
+    const executor = composeExecutor(tracing("a"), tracing("b"), async () => {
+      calls.push("executor");
+      return { data: { id: "1" } };
+    });
+
+    const operation = createOperation();
+    const response = await executor(
+      operation.request,
+      operation.variables,
+      operation,
+    );
+
+    expect(response).toEqual({ data: { id: "1" } });
+    expect(calls).toEqual([
+      "a:before",
+      "b:before",
+      "executor",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("forwards operations rewritten by middleware to the executor", async () => {
+    let received: GraphQLOperation | undefined;
+    let receivedVariables: Record<string, unknown> | undefined;
+    const executor = composeExecutor(
+      withHeader("authorization", "Bearer t"),
+      async (operation, next) =>
+        next({ ...operation, variables: { ...operation.variables, x: 1 } }),
+      async (_request, variables, operation) => {
+        received = operation;
+        receivedVariables = variables;
+        return {};
+      },
+    );
+
+    const operation = createOperation();
+    await executor(operation.request, operation.variables, operation);
+
+    expect(received?.context.headers).toEqual({ authorization: "Bearer t" });
+    expect(received?.operationName).toBe("Op");
+    expect(received?.runtime.fieldMap.has("id")).toBe(true);
+    expect(receivedVariables).toEqual({ x: 1 });
+  });
+
+  it("lets middleware short-circuit and retry", async () => {
+    let attempts = 0;
+    const retry: GraphQLMiddleware<Promise<unknown>> = async (
+      operation,
+      next,
+    ) => {
+      for (let i = 0; ; i++) {
+        try {
+          return await next(operation);
+        } catch (e) {
+          if (i === 2) throw e;
+        }
+      }
+    };
+    const executor = composeExecutor(retry, async () => {
+      if (++attempts < 3) throw new Error("flaky");
+      return { data: {} };
+    });
+
+    const operation = createOperation();
+    await expect(
+      executor(operation.request, operation.variables, operation),
+    ).resolves.toEqual({ data: {} });
+    expect(attempts).toBe(3);
+  });
+
+  it("requires the operation argument", () => {
+    const executor = composeExecutor(async () => ({}));
+    expect(() => executor("{ id }", {})).toThrow(
+      "Composed executors and subscribers require the operation argument",
+    );
+  });
+});
+
+describe("composeSubscriber", () => {
+  it("shares generic middleware and flattens promised streams", async () => {
+    let headers: unknown;
+    const subscriber = composeSubscriber(
+      withHeader("x-tenant", "t1"),
+      async (_request, _variables, operation) => {
+        headers = operation?.context.headers;
+        return (async function* () {
+          yield { data: { id: "1" } };
+          yield { data: { id: "2" } };
+        })();
+      },
+    );
+
+    const operation = createOperation({ operationType: "subscription" });
+    const payloads: unknown[] = [];
+    for await (const payload of await subscriber(
+      operation.request,
+      operation.variables,
+      operation,
+    )) {
+      payloads.push(payload);
+    }
+
+    expect(headers).toEqual({ "x-tenant": "t1" });
+    expect(payloads).toEqual([{ data: { id: "1" } }, { data: { id: "2" } }]);
+  });
+
+  it("propagates early return to the terminal stream", async () => {
+    let closed = false;
+    const subscriber = composeSubscriber(
+      (operation, next) => next(operation),
+      async function* () {
+        try {
+          yield { data: 1 };
+          yield { data: 2 };
+        } finally {
+          closed = true;
+        }
+      },
+    );
+
+    const operation = createOperation({ operationType: "subscription" });
+    for await (const _payload of await subscriber(
+      operation.request,
+      operation.variables,
+      operation,
+    )) {
+      break;
+    }
+
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import type { GraphQLOperation } from "../executor";
+import { createHttpExecutor, GraphQLHttpError } from "../http-executor";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+function createOperation(
+  overrides: Partial<GraphQLOperation> = {},
+): GraphQLOperation {
+  const schemaType = createSchemaType("HttpQuery", "OBJECT", [], ["id"]);
+  const runtime = new SelectionImpl(
+    [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+    false,
+    "",
+  ).addField("id");
+  return {
+    request: "query Op($id: ID) { id }",
+    variables: { id: "1" },
+    operationName: "Op",
+    operationType: "query",
+    runtime,
+    context: {},
+    ...overrides,
+  };
+}
+
+function recordingFetch(
+  respond: () => Response = () =>
+    Response.json({ data: { id: "1" } }, {
+      headers: { "content-type": "application/graphql-response+json" },
+    }),
+) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return respond();
+  }) as unknown as typeof globalThis.fetch;
+  return { calls, fetch };
+}
+
+const call = (
+  executor: ReturnType<typeof createHttpExecutor>,
+  operation: GraphQLOperation,
+) => executor(operation.request, operation.variables, operation);
+
+describe("createHttpExecutor", () => {
+  it("posts JSON with merged headers, credentials and signal", async () => {
+    const { calls, fetch } = recordingFetch();
+    const controller = new AbortController();
+    const executor = createHttpExecutor({
+      url: "https://api.test/graphql",
+      headers: async () => ({ authorization: "Bearer a", "x-app": "web" }),
+      credentials: "include",
+      fetch,
+    });
+
+    const response = await call(
+      executor,
+      createOperation({
+        signal: controller.signal,
+        context: { headers: { authorization: "Bearer b" } },
+      }),
+    );
+
+    expect(response).toEqual({ data: { id: "1" } });
+    const { url, init } = calls[0]!;
+    expect(url).toBe("https://api.test/graphql");
+    expect(init.method).toBe("POST");
+    expect(init.credentials).toBe("include");
+    expect(init.signal).toBe(controller.signal);
+    expect(init.headers).toEqual({
+      "content-type": "application/json",
+      accept: "application/graphql-response+json, application/json;q=0.9",
+      authorization: "Bearer b",
+      "x-app": "web",
+    });
+    expect(JSON.parse(init.body as string)).toEqual({
+      query: "query Op($id: ID) { id }",
+      variables: { id: "1" },
+      operationName: "Op",
+    });
+  });
+
+  it("sends queries as GET with URL-encoded parameters", async () => {
+    const { calls, fetch } = recordingFetch();
+    const executor = createHttpExecutor({
+      url: "https://api.test/graphql?app=web",
+      method: "GET",
+      fetch,
+    });
+
+    await call(executor, createOperation());
+    await call(executor, createOperation({ operationType: "mutation" }));
+
+    const [query, mutation] = calls;
+    expect(query!.init.method).toBe("GET");
+    expect(query!.init.body).toBeUndefined();
+    const url = new URL(query!.url);
+    expect(url.searchParams.get("app")).toBe("web");
+    expect(url.searchParams.get("query")).toBe("query Op($id: ID) { id }");
+    expect(url.searchParams.get("variables")).toBe('{"id":"1"}');
+    expect(url.searchParams.get("operationName")).toBe("Op");
+    expect(mutation!.init.method).toBe("POST");
+  });
+
+  it("falls back to POST in auto mode when the URL gets too long", async () => {
+    const { calls, fetch } = recordingFetch();
+    const executor = createHttpExecutor({
+      url: "https://api.test/graphql",
+      method: "auto",
+      maxUrlLength: 120,
+      fetch,
+    });
+
+    await call(executor, createOperation());
+    await call(executor, createOperation({ variables: { id: "x".repeat(200) } }));
+    expect(calls.map((c) => c.init.method)).toEqual(["GET", "POST"]);
+  });
+
+  it("omits the document for persisted operations", async () => {
+    const { calls, fetch } = recordingFetch();
+    const executor = createHttpExecutor({ url: "/graphql", method: "GET", fetch });
+
+    await call(
+      executor,
+      createOperation({
+        includeQuery: false,
+        documentId: "abc",
+        extensions: { persistedQuery: { version: 1, sha256Hash: "abc" } },
+      }),
+    );
+
+    const params = new URL(calls[0]!.url, "https://api.test").searchParams;
+    expect(params.has("query")).toBe(false);
+    expect(params.get("documentId")).toBe("abc");
+    expect(JSON.parse(params.get("extensions")!)).toEqual({
+      persistedQuery: { version: 1, sha256Hash: "abc" },
+    });
+  });
+
+  it("sends variables containing files as a multipart request", async () => {
+    const { calls, fetch } = recordingFetch();
+    const executor = createHttpExecutor({
+      url: "/graphql",
+      method: "GET",
+      headers: { "apollo-require-preflight": "true" },
+      fetch,
+    });
+    const file = new File(["hello"], "hello.txt");
+
+    await call(
+      executor,
+      createOperation({
+        request: "mutation Op($input: UploadInput!) { id }",
+        variables: { input: { files: [file] } },
+      }),
+    );
+
+    const { url, init } = calls[0]!;
+    expect(url).toBe("/graphql");
+    expect(init.method).toBe("POST");
+    expect(init.headers).toEqual({
+      accept: "application/graphql-response+json, application/json;q=0.9",
+      "apollo-require-preflight": "true",
+    });
+    const form = init.body as FormData;
+    expect(JSON.parse(form.get("operations") as string)).toEqual({
+      query: "mutation Op($input: UploadInput!) { id }",
+      variables: { input: { files: [null] } },
+      operationName: "Op",
+    });
+    expect(JSON.parse(form.get("map") as string)).toEqual({
+      0: ["variables.input.files.0"],
+    });
+    expect(form.get("0")).toBeInstanceOf(File);
+  });
+
+  it("accepts multipart/mixed for @defer and streams its parts", async () => {
+    const { calls, fetch } = recordingFetch(
+      () =>
+        new Response(
+          '\r\n---\r\ncontent-type: application/json\r\n\r\n{"data":{"id":"1"},"hasNext":true}' +
+            '\r\n---\r\ncontent-type: application/json\r\n\r\n{"incremental":[{"data":{"name":"a"},"path":[]}],"hasNext":false}' +
+            "\r\n-----\r\n",
+          { headers: { "content-type": 'multipart/mixed; boundary="-"' } },
+        ),
+    );
+    const executor = createHttpExecutor({ url: "/graphql", fetch });
+
+    const response = await call(
+      executor,
+      createOperation({ request: "{ id ... @defer { name } }" }),
+    );
+
+    expect((calls[0]!.init.headers as Record<string, string>).accept).toBe(
+      "multipart/mixed;deferSpec=20220824, application/graphql-response+json, application/json;q=0.9",
+    );
+    const parts: unknown[] = [];
+    for await (const part of response as AsyncIterable<unknown>) parts.push(part);
+    expect(parts).toEqual([
+      { data: { id: "1" }, hasNext: true },
+      { incremental: [{ data: { name: "a" }, path: [] }], hasNext: false },
+    ]);
+  });
+
+  it("returns GraphQL error bodies of graphql-response+json error statuses", async () => {
+    const body = { errors: [{ message: "Cannot query field" }] };
+    const { fetch } = recordingFetch(() =>
+      Response.json(body, {
+        status: 400,
+        headers: { "content-type": "application/graphql-response+json" },
+      }),
+    );
+    const executor = createHttpExecutor({ url: "/graphql", fetch });
+
+    await expect(call(executor, createOperation())).resolves.toEqual(body);
+  });
+
+  it("throws GraphQLHttpError for other failures", async () => {
+    const failing = createHttpExecutor({
+      url: "/graphql",
+      fetch: recordingFetch(
+        () => new Response("upstream down", { status: 502, statusText: "Bad Gateway" }),
+      ).fetch,
+    });
+    const error = (await call(failing, createOperation()).catch(
+      (e: unknown) => e,
+    )) as GraphQLHttpError;
+    expect(error).toBeInstanceOf(GraphQLHttpError);
+    expect(error).toMatchObject({ status: 502, body: "upstream down" });
+    expect(error.message).toBe("GraphQL request failed with HTTP 502 Bad Gateway");
+
+    const malformed = createHttpExecutor({
+      url: "/graphql",
+      fetch: recordingFetch(() => Response.json({ ok: true })).fetch,
+    });
+    await expect(call(malformed, createOperation())).rejects.toBeInstanceOf(
+      GraphQLHttpError,
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { mergeIncrementalPayloads, readMultipartMixed } from "../incremental";
+
+async function* payloads(...values: unknown[]) {
+  yield* values;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const value of iterable) out.push(value);
+  return out;
+}
+
+describe("mergeIncrementalPayloads", () => {
+  it("merges deferred data and streamed items by path", async () => {
+    const results = await collect(
+      mergeIncrementalPayloads(
+        payloads(
+          { data: { viewer: { id: "u1" }, posts: [{ id: "p1" }] }, hasNext: true },
+          {
+            incremental: [
+              { data: { name: "Ash" }, path: ["viewer"], label: "Name" },
+              { items: [{ id: "p2" }, { id: "p3" }], path: ["posts", 1] },
+            ],
+            hasNext: true,
+          },
+          {
+            incremental: [
+              {
+                data: { title: "Hi" },
+                path: ["posts", 0],
+                errors: [{ message: "slow", path: ["posts", 0, "title"] }],
+              },
+            ],
+            extensions: { cost: 3 },
+            hasNext: false,
+          },
+        ),
+      ),
+    );
+
+    expect(results).toEqual([
+      { data: { viewer: { id: "u1" }, posts: [{ id: "p1" }] }, hasNext: true },
+      {
+        data: {
+          viewer: { id: "u1", name: "Ash" },
+          posts: [{ id: "p1" }, { id: "p2" }, { id: "p3" }],
+        },
+        hasNext: true,
+      },
+      {
+        data: {
+          viewer: { id: "u1", name: "Ash" },
+          posts: [{ id: "p1", title: "Hi" }, { id: "p2" }, { id: "p3" }],
+        },
+        errors: [{ message: "slow", path: ["posts", 0, "title"] }],
+        extensions: { cost: 3 },
+        hasNext: false,
+      },
+    ]);
+    // Earlier results are never mutated; untouched parts are shared.
+    expect(results[0]!.data!.viewer).toEqual({ id: "u1" });
+    expect(results[2]!.data!.viewer).toBe(results[1]!.data!.viewer);
+  });
+
+  it("resolves pending ids, subPath and completed errors", async () => {
+    const results = await collect(
+      mergeIncrementalPayloads(
+        payloads(
+          {
+            data: { post: { id: "p1", comments: [] } },
+            pending: [
+              { id: "0", path: ["post"], label: "Author" },
+              { id: "1", path: ["post", "comments"] },
+            ],
+            hasNext: true,
+          },
+          {
+            incremental: [
+              { id: "0", data: { name: "Ash" }, subPath: ["author"] },
+              { id: "1", items: [{ id: "c1" }] },
+            ],
+            completed: [{ id: "0" }],
+            hasNext: true,
+          },
+          {
+            completed: [{ id: "1", errors: [{ message: "stream failed" }] }],
+            hasNext: false,
+          },
+        ),
+      ),
+    );
+
+    expect(results.at(-1)).toEqual({
+      data: {
+        post: { id: "p1", comments: [{ id: "c1" }], author: { name: "Ash" } },
+      },
+      errors: [{ message: "stream failed" }],
+      hasNext: false,
+    });
+  });
+
+  it("yields a single response as a finished result", async () => {
+    expect(await collect(mergeIncrementalPayloads({ data: { id: "1" } }))).toEqual([
+      { data: { id: "1" }, hasNext: false },
+    ]);
+  });
+});
+
+describe("readMultipartMixed", () => {
+  it("parses JSON parts split across chunks", async () => {
+    const encoder = new TextEncoder();
+    const chunks = [
+      "preamble\r\n--graphql\r\ncontent-type: application/json\r\n\r\n",
+      '{"data":{"a":"--graphql"},"hasNext":true}\r\n--gra',
+      'phql\r\ncontent-type: application/json\r\n\r\n{"hasNext":false}\r\n--graphql--\r\n',
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+        controller.close();
+      },
+    });
+    const response = new Response(body, {
+      headers: { "content-type": "multipart/mixed; boundary=graphql" },
+    });
+
+    expect(await collect(readMultipartMixed(response))).toEqual([
+      { data: { a: "--graphql" }, hasNext: true },
+      { hasNext: false },
+    ]);
+  });
+});
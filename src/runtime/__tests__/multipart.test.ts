@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { createMultipartBody, extractFiles } from "../multipart";
+
+describe("extractFiles", () => {
+  it("replaces nested files with null and records their paths", () => {
+    const avatar = new File(["a"], "avatar.png", { type: "image/png" });
+    const blob = new Blob(["b"]);
+    const createdAt = new Date(0);
+    const variables = {
+      avatar,
+      input: { title: "t", attachments: [blob, { file: avatar }], createdAt },
+    };
+
+    const { clone, files } = extractFiles(variables, "variables");
+
+    expect(clone).toEqual({
+      avatar: null,
+      input: { title: "t", attachments: [null, { file: null }], createdAt },
+    });
+    expect(clone.input.createdAt).toBe(createdAt);
+    expect(variables.avatar).toBe(avatar);
+    expect([...files]).toEqual([
+      [avatar, ["variables.avatar", "variables.input.attachments.1.file"]],
+      [blob, ["variables.input.attachments.0"]],
+    ]);
+  });
+
+  it("finds nothing in file-free values", () => {
+    const { clone, files } = extractFiles({ id: "1", tags: ["a"] });
+    expect(clone).toEqual({ id: "1", tags: ["a"] });
+    expect(files.size).toBe(0);
+  });
+});
+
+describe("createMultipartBody", () => {
+  it("writes operations, map and one part per file", async () => {
+    const file = new File(["content"], "a.txt");
+    const { clone, files } = extractFiles({ a: file, b: [file] }, "variables");
+
+    const form = createMultipartBody({ query: "mutation { x }", variables: clone }, files);
+
+    expect([...form.keys()]).toEqual(["operations", "map", "0"]);
+    expect(JSON.parse(form.get("operations") as string)).toEqual({
+      query: "mutation { x }",
+      variables: { a: null, b: [null] },
+    });
+    expect(JSON.parse(form.get("map") as string)).toEqual({
+      0: ["variables.a", "variables.b.0"],
+    });
+    const part = form.get("0") as File;
+    expect(part.name).toBe("a.txt");
+    expect(await part.text()).toBe("content");
+  });
+});
@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { composeExecutor } from "../executor";
+import type { GraphQLOperation } from "../executor";
+import {
+  persistedDocumentExecutor,
+  persistedQueryExecutor,
+} from "../persisted-queries";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+const schemaType = createSchemaType("PersistedQuery", "OBJECT", [], ["id"]);
+const runtime = new SelectionImpl(
+  [schemaType, new EnumInputMetadataBuilder().build(), undefined],
+  false,
+  "",
+).addField("id");
+
+const operation: GraphQLOperation = {
+  request: "query Op { id }",
+  variables: {},
+  operationName: "Op",
+  operationType: "query",
+  runtime,
+  context: {},
+};
+
+const call = (executor: ReturnType<typeof composeExecutor>) =>
+  executor(operation.request, operation.variables, operation);
+
+const sha256Hex = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+describe("persistedQueryExecutor", () => {
+  it("sends the SHA-256 hash without the document first", async () => {
+    const sent: GraphQLOperation[] = [];
+    const executor = composeExecutor(
+      persistedQueryExecutor(),
+      async (_request, _variables, op) => {
+        sent.push(op!);
+        return { data: { id: "1" } };
+      },
+    );
+
+    expect(await call(executor)).toEqual({ data: { id: "1" } });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.includeQuery).toBe(false);
+    expect(sent[0]!.extensions).toEqual({
+      persistedQuery: { version: 1, sha256Hash: sha256Hex(operation.request) },
+    });
+  });
+
+  it("retries with the full document on PersistedQueryNotFound", async () => {
+    const sent: GraphQLOperation[] = [];
+    const executor = composeExecutor(
+      persistedQueryExecutor(),
+      async (_request, _variables, op) => {
+        sent.push(op!);
+        return op!.includeQuery === false
+          ? { errors: [{ message: "PersistedQueryNotFound" }] }
+          : { data: { id: "1" } };
+      },
+    );
+
+    expect(await call(executor)).toEqual({ data: { id: "1" } });
+    expect(sent.map((op) => op.includeQuery)).toEqual([false, true]);
+    expect(sent[1]!.extensions).toEqual(sent[0]!.extensions);
+  });
+
+  it("hashes each selection once", async () => {
+    let hashed = 0;
+    const executor = composeExecutor(
+      persistedQueryExecutor({
+        hash: (query) => {
+          hashed++;
+          return `hash:${query.length}`;
+        },
+      }),
+      async () => ({ data: {} }),
+    );
+
+    await call(executor);
+    await call(executor);
+    await Promise.all([call(executor), call(executor)]);
+    expect(hashed).toBe(1);
+  });
+
+  it("falls back to full documents after PersistedQueryNotSupported", async () => {
+    const sent: GraphQLOperation[] = [];
+    const executor = composeExecutor(
+      persistedQueryExecutor(),
+      async (_request, _variables, op) => {
+        sent.push(op!);
+        return op!.includeQuery === false
+          ? {
+              errors: [
+                {
+                  message: "not supported",
+                  extensions: { code: "PERSISTED_QUERY_NOT_SUPPORTED" },
+                },
+              ],
+            }
+          : { data: { id: "1" } };
+      },
+    );
+
+    await call(executor);
+    await call(executor);
+    expect(sent.map((op) => op.includeQuery)).toEqual([false, undefined, undefined]);
+    expect(sent[2]!.extensions).toBeUndefined();
+  });
+});
+
+describe("persistedDocumentExecutor", () => {
+  it("sends only the document id", async () => {
+    const sent: GraphQLOperation[] = [];
+    const executor = composeExecutor(
+      persistedDocumentExecutor(),
+      async (_request, _variables, op) => {
+        sent.push(op!);
+        return { data: { id: "1" } };
+      },
+    );
+
+    await call(executor);
+    expect(sent[0]!.documentId).toBe(sha256Hex(operation.request));
+    expect(sent[0]!.includeQuery).toBe(false);
+    expect(sent[0]!.extensions).toBeUndefined();
+  });
+});
@@ -648,4 +648,56 @@ describe("关联字段回调选择", () => {
             "$use requires a fragment created by fragment$",
         );
     });
+
+    it("$defer() and $include() attach to the preceding fragment spread", () => {
+        const nodeType = makeType("DeferNode", ["id", "name", "bio"]);
+        const selection = createSelection<string, Selection<string, object, object>>(
+            nodeType,
+            enumInputMetadata,
+            undefined,
+        );
+        const fragment = new FragmentRef("DeferBio", (selection as any).bio);
+
+        const result = (selection as any).id
+            .$on((it: any) => it.name)
+            .$defer("Name")
+            .$use(fragment)
+            .$defer()
+            .$include(true);
+
+        expect(result.toString()).toBe(
+            "{\n\tid\n\t...\n\t@defer(label: \"Name\") {\n\t\tname\n\t}\n\t... DeferBio\n\t@defer\n\t@include(if: true)\n}\n",
+        );
+        expect(result.toFragmentString()).toBe("fragment DeferBio on DeferNode {\n\tbio\n}\n");
+        expect(() => (selection as any).id.$defer()).toThrow(
+            "@defer requires a preceding fragment spread",
+        );
+    });
+
+    it("$stream() adds @stream to the last list field only", () => {
+        const itemType = makeType("StreamItem", ["id"]);
+        const listType = createSchemaType("StreamRoot", "OBJECT", [], [
+            "total",
+            { name: "items", category: "LIST", targetTypeName: "StreamItem" },
+        ]);
+        const selection = createSelection<string, Selection<string, object, object>>(
+            listType,
+            enumInputMetadata,
+            undefined,
+        );
+        const items = createSelection<string, Selection<string, object, object>>(
+            itemType,
+            enumInputMetadata,
+            undefined,
+        );
+
+        const result = (selection as any).items((items as any).id).$stream(2, "Items");
+        expect(result.fieldMap.get("items")?.fieldOptionsValue?.directives.get("stream")).toEqual({
+            initialCount: 2,
+            label: "Items",
+        });
+        expect(() => (selection as any).total.$stream(2)).toThrow(
+            "$stream requires a preceding list field selection",
+        );
+    });
 });
@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import { composeExecutor, composeSubscriber } from "../executor";
+import { ParameterRef } from "../parameter";
+import {
+  ResponseShapeError,
+  validateResponseExecutor,
+  validateResponseShape,
+  validateResponseSubscriber,
+} from "../response-validation";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+import { runtimeOf } from "../types";
+
+const nodeType = createSchemaType("ShapeNode", "OBJECT", [], [
+  { name: "id", category: "ID" },
+]);
+const postType = createSchemaType("ShapePost", "OBJECT", [nodeType], [
+  "title",
+  { name: "tags", category: "SCALAR", undefinable: true },
+]);
+const userType = createSchemaType("ShapeUser", "OBJECT", [nodeType], [
+  "name",
+  { name: "bio", category: "SCALAR", undefinable: true },
+  { name: "posts", category: "LIST", targetTypeName: "ShapePost" },
+]);
+const queryType = createSchemaType("ShapeQuery", "OBJECT", [], [
+  { name: "node", category: "REFERENCE", targetTypeName: "ShapeNode", undefinable: true },
+  { name: "viewer", category: "REFERENCE", targetTypeName: "ShapeUser" },
+]);
+
+const metadata = new EnumInputMetadataBuilder().build();
+
+function createRoot(schemaType: ReturnType<typeof createSchemaType>) {
+  return new SelectionImpl([schemaType, metadata, undefined], false, "");
+}
+
+const posts = createRoot(postType).addField("title").addField("tags");
+const viewer = createRoot(userType)
+  .addField("name", undefined, undefined, { alias: "displayName", directives: new Map() })
+  .addField("bio", undefined, undefined, {
+    directives: new Map([["include", { if: ParameterRef.of("withBio", "Boolean!") }]]),
+  })
+  .addField("posts", undefined, posts);
+const node = createRoot(nodeType)
+  .addField("__typename")
+  .addField("id")
+  .addEmbeddable(createRoot(postType).addField("title"))
+  .addEmbeddable(createRoot(userType).addField("name"));
+const query = createRoot(queryType)
+  .addField("viewer", undefined, viewer)
+  .addField("node", undefined, node);
+
+describe("validateResponseShape", () => {
+  it("accepts matching responses through aliases and type conditions", () => {
+    expect(
+      validateResponseShape(query, {
+        viewer: {
+          displayName: "Ada",
+          posts: [{ title: "Hello", tags: ["a", null] }, { title: "Bye", tags: null }],
+        },
+        node: { __typename: "ShapeUser", id: "u1", name: "Ada" },
+      }),
+    ).toEqual([]);
+    expect(
+      validateResponseShape(
+        query,
+        {
+          viewer: { displayName: "Ada", bio: null, posts: [] },
+          node: null,
+        },
+        { withBio: true },
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports mismatches by response path", () => {
+    expect(
+      validateResponseShape(
+        query,
+        {
+          viewer: {
+            name: "Ada",
+            posts: [{ title: null, tags: [{}] }, [{ title: "Nested" }], "oops"],
+          },
+          node: { __typename: "ShapePost", id: "p1" },
+        },
+        { withBio: true },
+      ),
+    ).toEqual([
+      { path: ["viewer", "displayName"], message: "missing field 'name'" },
+      { path: ["viewer", "bio"], message: "missing field 'bio'" },
+      { path: ["viewer", "posts", 0, "title"], message: "received null for non-null field 'title'" },
+      { path: ["viewer", "posts", 0, "tags"], message: "expected a scalar, received a list" },
+      { path: ["viewer", "posts", 1, 0, "tags"], message: "missing field 'tags'" },
+      { path: ["viewer", "posts", 2], message: "expected an object, received string" },
+      { path: ["node", "title"], message: "missing field 'title'" },
+    ]);
+    expect(validateResponseShape(query, { viewer: [], node: { __typename: "ShapeQuery", id: "q" } })).toEqual([
+      { path: ["viewer"], message: "expected an object, received a list" },
+      {
+        path: ["node", "__typename"],
+        message: "unexpected __typename 'ShapeQuery', expected ShapeNode or one of its subtypes",
+      },
+    ]);
+    expect(
+      validateResponseShape(query, {
+        viewer: { displayName: "Ada", posts: {} },
+        node: { __typename: "ShapeComment", id: "c1" },
+      }),
+    ).toEqual([
+      { path: ["viewer", "posts"], message: "expected a list, received an object" },
+      { path: ["node", "__typename"], message: "unknown __typename 'ShapeComment'" },
+    ]);
+  });
+});
+
+describe("validateResponseExecutor", () => {
+  const operation = {
+    request: query.toString(),
+    variables: {},
+    operationType: "query",
+    runtime: runtimeOf(query),
+    context: {},
+  } as const;
+  const response = { data: { viewer: { displayName: "Ada" }, node: null } };
+
+  it("warns by default and passes the response on", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      const executor = composeExecutor(validateResponseExecutor(), async () => response);
+      expect(await executor(operation.request, {}, operation)).toBe(response);
+      expect(warn).toHaveBeenCalledOnce();
+      expect(warn.mock.calls[0]![0]).toContain("viewer.posts: missing field 'posts'");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("throws a ResponseShapeError in throw mode", async () => {
+    const executor = composeExecutor(
+      validateResponseExecutor({ onMismatch: "throw" }),
+      async () => response,
+    );
+    const error = (await executor(operation.request, {}, operation).catch(
+      (e) => e,
+    )) as ResponseShapeError;
+    expect(error).toBeInstanceOf(ResponseShapeError);
+    expect(error.mismatches).toEqual([
+      { path: ["viewer", "posts"], message: "missing field 'posts'" },
+    ]);
+    expect(error.message).toContain("anonymous operation");
+  });
+
+  it("validates subscription events", async () => {
+    const subscriber = composeSubscriber(
+      validateResponseSubscriber({ onMismatch: "throw" }),
+      async function* () {
+        yield { data: { viewer: { displayName: "Ada", posts: [] }, node: null } };
+        yield response;
+      },
+    );
+    const received: unknown[] = [];
+    const error = await (async () => {
+      for await (const event of await subscriber(operation.request, {}, operation)) {
+        received.push(event);
+      }
+    })().catch((e) => e);
+    expect(received).toHaveLength(1);
+    expect(error).toBeInstanceOf(ResponseShapeError);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { EnumInputMetadataBuilder } from "../enum-metadata";
+import { ParameterRef } from "../parameter";
+import {
+  decodeScalars,
+  encodeScalars,
+  encodeScalarVariables,
+  registerScalarCodecs,
+} from "../scalar-codecs";
+import { createSchemaType } from "../schema";
+import { SelectionImpl } from "../selection";
+
+registerScalarCodecs({
+  CodecDate: {
+    parse: (value: string) => new Date(value),
+    serialize: (date: Date) => date.toISOString(),
+  },
+  CodecBigInt: {
+    parse: (value: string) => BigInt(value),
+    serialize: (value: bigint) => value.toString(),
+  },
+});
+
+const metadata = new EnumInputMetadataBuilder()
+  .add("CodecRange", [
+    { name: "from", typeName: "CodecDate", graphqlTypeName: "CodecDate!", isLeaf: true },
+    { name: "to", typeName: "CodecDate", graphqlTypeName: "CodecDate", isLeaf: true },
+  ])
+  .build();
+
+const eventType = createSchemaType("CodecEvent", "OBJECT", [], [
+  { name: "id", category: "ID" },
+  { name: "at", category: "SCALAR", scalarTypeName: "CodecDate" },
+  { name: "history", category: "SCALAR", scalarTypeName: "CodecDate", undefinable: true },
+  { name: "views", category: "SCALAR", scalarTypeName: "CodecBigInt" },
+  "title",
+]);
+const queryType = createSchemaType("CodecQuery", "OBJECT", [], [
+  {
+    name: "events",
+    category: "LIST",
+    targetTypeName: "CodecEvent",
+    argGraphQLTypeMap: { range: "CodecRange", since: "CodecDate" },
+  },
+]);
+
+function createRoot(schemaType: ReturnType<typeof createSchemaType>) {
+  return new SelectionImpl([schemaType, metadata, undefined], false, "");
+}
+
+describe("scalar codecs", () => {
+  it("decodes custom scalars through aliases, lists and fragments", () => {
+    const event = createRoot(eventType)
+      .addField("id")
+      .addField("at", undefined, undefined, { alias: "startsAt", directives: new Map() })
+      .addField("history")
+      .addEmbeddable(createRoot(eventType).addField("at", undefined, undefined, {
+        alias: "startsAt",
+        directives: new Map(),
+      }).addField("views"));
+    const query = createRoot(queryType).addField("events", undefined, event);
+    const data = {
+      events: [
+        {
+          id: "e1",
+          startsAt: "2024-01-02T00:00:00.000Z",
+          history: ["2023-12-31T00:00:00.000Z"],
+          views: "9007199254740993",
+        },
+      ],
+    };
+
+    const decoded = decodeScalars(query, data);
+
+    expect(decoded.events[0]).toEqual({
+      id: "e1",
+      startsAt: new Date("2024-01-02T00:00:00.000Z"),
+      history: [new Date("2023-12-31T00:00:00.000Z")],
+      views: 9007199254740993n,
+    });
+    expect(data.events[0]!.startsAt).toBe("2024-01-02T00:00:00.000Z");
+
+    const ids = createRoot(queryType).addField(
+      "events",
+      undefined,
+      createRoot(eventType).addField("id"),
+    );
+    expect(decodeScalars(ids, data)).toBe(data);
+    expect(encodeScalars(query, decoded)).toEqual(data);
+  });
+
+  it("encodes variables and literal arguments", () => {
+    const query = createRoot(queryType).addField(
+      "events",
+      { range: ParameterRef.of("range"), since: new Date("2024-01-01T00:00:00.000Z") },
+      createRoot(eventType).addField("id"),
+    );
+
+    expect(query.toString()).toContain('since: "2024-01-01T00:00:00.000Z"');
+    expect(
+      encodeScalarVariables(query, {
+        range: { from: new Date("2024-01-01T00:00:00.000Z"), to: null },
+      }),
+    ).toEqual({ range: { from: "2024-01-01T00:00:00.000Z", to: null } });
+  });
+});
@@ -0,0 +1,277 @@
+import { getEventListeners } from "node:events";
+import { describe, expect, it } from "vitest";
+import type { GraphQLOperation } from "../executor";
+import { GraphQLHttpError } from "../http-executor";
+import { createSseSubscriber } from "../sse-subscriber";
+
+// ─── In-process graphql-sse server ────────────────────────────────────
+
+interface EventStream {
+  readonly response: Response;
+  write(text: string): void;
+  close(): void;
+  readonly aborted: boolean;
+}
+
+function eventStream(signal?: AbortSignal | null): EventStream {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let aborted = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  signal?.addEventListener("abort", () => {
+    aborted = true;
+    controller.error(signal.reason);
+  });
+  const encoder = new TextEncoder();
+  return {
+    response: new Response(body, { headers: { "content-type": "text/event-stream" } }),
+    write: (text) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+    get aborted() {
+      return aborted;
+    },
+  };
+}
+
+interface Call {
+  readonly url: string;
+  readonly method: string;
+  readonly headers: Record<string, string>;
+  readonly body?: any;
+}
+
+function fakeFetch(respond: (call: Call, signal?: AbortSignal | null) => Response) {
+  const calls: Call[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    const call: Call = {
+      url,
+      method: init.method!,
+      headers: init.headers as Record<string, string>,
+      body: init.body !== undefined ? JSON.parse(init.body as string) : undefined,
+    };
+    calls.push(call);
+    return respond(call, init.signal);
+  }) as unknown as typeof globalThis.fetch;
+  return { calls, fetch };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function until(condition: () => boolean) {
+  for (let i = 0; i < 50 && !condition(); i++) await tick();
+  expect(condition()).toBe(true);
+}
+
+describe("createSseSubscriber (distinct connections)", () => {
+  it("posts the operation and parses next/complete events", async () => {
+    const streams: EventStream[] = [];
+    const { calls, fetch } = fakeFetch((_call, signal) => {
+      streams.push(eventStream(signal));
+      return streams.at(-1)!.response;
+    });
+    const subscriber = createSseSubscriber({
+      url: "/graphql/stream",
+      headers: { authorization: "Bearer a" },
+      fetch,
+    });
+
+    const iterator = (
+      await subscriber("subscription S { n }", { x: 1 }, undefined)
+    )[Symbol.asyncIterator]();
+    await until(() => streams.length === 1);
+
+    expect(calls[0]).toEqual({
+      url: "/graphql/stream",
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "text/event-stream",
+        authorization: "Bearer a",
+      },
+      body: { query: "subscription S { n }", variables: { x: 1 } },
+    });
+
+    const [stream] = streams;
+    stream!.write(': keep-alive\r\n\r\nevent: next\r\ndata: {"data":');
+    stream!.write('{"n":1}}\r\n\r\nevent: next\ndata: {"data":{"n":2}}\n\n');
+    stream!.write("event: complete\ndata:\n\n");
+    expect(await iterator.next()).toEqual({ value: { data: { n: 1 } }, done: false });
+    expect(await iterator.next()).toEqual({ value: { data: { n: 2 } }, done: false });
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it("reconnects with Last-Event-ID when the stream drops", async () => {
+    const streams: EventStream[] = [];
+    const { calls, fetch } = fakeFetch((_call, signal) => {
+      streams.push(eventStream(signal));
+      return streams.at(-1)!.response;
+    });
+    const subscriber = createSseSubscriber({
+      url: "/graphql/stream",
+      fetch,
+      retryDelay: () => 0,
+    });
+
+    const iterator = (await subscriber("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => streams.length === 1);
+    streams[0]!.write('id: 7\nevent: next\ndata: {"data":{"n":1}}\n\n');
+    expect(await iterator.next()).toEqual({ value: { data: { n: 1 } }, done: false });
+    streams[0]!.close();
+
+    await until(() => streams.length === 2);
+    expect(calls[0]!.headers["last-event-id"]).toBeUndefined();
+    expect(calls[1]!.headers["last-event-id"]).toBe("7");
+
+    streams[1]!.write('event: next\ndata: {"data":{"n":2}}\n\n');
+    expect(await iterator.next()).toEqual({ value: { data: { n: 2 } }, done: false });
+    await iterator.return!();
+    expect(streams[1]!.aborted).toBe(true);
+  });
+
+  it("surfaces GraphQL error bodies and HTTP errors", async () => {
+    const body = { errors: [{ message: "Unknown field" }] };
+    const invalid = createSseSubscriber({
+      url: "/graphql/stream",
+      fetch: fakeFetch(() => Response.json(body, { status: 400 })).fetch,
+    });
+    const results: unknown[] = [];
+    for await (const result of await invalid("subscription { nope }", {})) {
+      results.push(result);
+    }
+    expect(results).toEqual([body]);
+
+    const unauthorized = createSseSubscriber({
+      url: "/graphql/stream",
+      fetch: fakeFetch(() => new Response("no", { status: 401 })).fetch,
+    });
+    const iterator = (await unauthorized("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await expect(iterator.next()).rejects.toBeInstanceOf(GraphQLHttpError);
+  });
+
+  it("detaches from the abort signal once the stream ends", async () => {
+    const { fetch } = fakeFetch((call) => {
+      if (call.body.query === "subscription { denied }") {
+        return new Response("no", { status: 401 });
+      }
+      const stream = eventStream();
+      stream.write("event: complete\ndata:\n\n");
+      return stream.response;
+    });
+    const subscriber = createSseSubscriber({ url: "/graphql/stream", fetch });
+    const { signal } = new AbortController();
+    const operation = { signal, context: {} } as GraphQLOperation;
+
+    for await (const _ of await subscriber("subscription { n }", {}, operation));
+    const denied = (await subscriber("subscription { denied }", {}, operation))[
+      Symbol.asyncIterator
+    ]();
+    await expect(denied.next()).rejects.toBeInstanceOf(GraphQLHttpError);
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+  });
+});
+
+describe("createSseSubscriber (single connection)", () => {
+  it("reserves one stream and routes operations by id", async () => {
+    let stream: EventStream | undefined;
+    const { calls, fetch } = fakeFetch((call, signal) => {
+      switch (call.method) {
+        case "PUT":
+          return new Response("token-1", { status: 201 });
+        case "GET":
+          stream = eventStream(signal);
+          return stream.response;
+        case "POST":
+          return new Response(null, { status: 202 });
+        default:
+          return new Response(null, { status: 200 });
+      }
+    });
+    const subscriber = createSseSubscriber({
+      url: "/graphql/stream",
+      singleConnection: true,
+      fetch,
+    });
+
+    const a = (await subscriber("subscription A { a }", {}))[Symbol.asyncIterator]();
+    const b = (await subscriber("subscription B { b }", {}))[Symbol.asyncIterator]();
+    await until(() => calls.filter((c) => c.method === "POST").length === 2);
+
+    expect(calls.map((c) => c.method)).toEqual(["PUT", "GET", "POST", "POST"]);
+    expect(calls[1]!.headers).toMatchObject({
+      accept: "text/event-stream",
+      "x-graphql-event-stream-token": "token-1",
+    });
+    expect(calls[2]!.headers["x-graphql-event-stream-token"]).toBe("token-1");
+    expect(calls[2]!.body).toEqual({
+      query: "subscription A { a }",
+      variables: {},
+      extensions: { operationId: "1" },
+    });
+
+    stream!.write('event: next\ndata: {"id":"2","payload":{"data":{"b":1}}}\n\n');
+    stream!.write('event: next\ndata: {"id":"1","payload":{"data":{"a":1}}}\n\n');
+    stream!.write('event: complete\ndata: {"id":"1"}\n\n');
+    expect(await a.next()).toEqual({ value: { data: { a: 1 } }, done: false });
+    expect(await a.next()).toEqual({ value: undefined, done: true });
+    expect(await b.next()).toEqual({ value: { data: { b: 1 } }, done: false });
+    expect(stream!.aborted).toBe(false);
+
+    await b.return!();
+    await until(() => calls.at(-1)!.method === "DELETE");
+    expect(calls.at(-1)!.url).toBe("/graphql/stream?operationId=2");
+    expect(calls.at(-1)!.headers["x-graphql-event-stream-token"]).toBe("token-1");
+    expect(stream!.aborted).toBe(true);
+  });
+
+  it("detaches from the abort signal once operations end", async () => {
+    let stream: EventStream | undefined;
+    let streamStatus = 200;
+    const { calls, fetch } = fakeFetch((call, signal) => {
+      switch (call.method) {
+        case "PUT":
+          return new Response("token-1", { status: 201 });
+        case "GET":
+          if (streamStatus !== 200) return new Response("gone", { status: streamStatus });
+          stream = eventStream(signal);
+          return stream.response;
+        case "POST":
+          return call.body.query === "subscription { nope }"
+            ? Response.json({ errors: [{ message: "Unknown field" }] }, { status: 400 })
+            : new Response(null, { status: 202 });
+        default:
+          return new Response(null, { status: 200 });
+      }
+    });
+    const subscriber = createSseSubscriber({
+      url: "/graphql/stream",
+      singleConnection: true,
+      fetch,
+    });
+    const { signal } = new AbortController();
+    const operation = { signal, context: {} } as GraphQLOperation;
+    const start = async (request: string) =>
+      (await subscriber(request, {}, operation))[Symbol.asyncIterator]();
+
+    const completed = await start("subscription { a }");
+    const returned = await start("subscription { b }");
+    const invalid = await start("subscription { nope }");
+    await until(() => calls.filter((c) => c.method === "POST").length === 3);
+    expect(await invalid.next()).toMatchObject({ done: false });
+    stream!.write('event: complete\ndata: {"id":"1"}\n\n');
+    expect(await completed.next()).toEqual({ value: undefined, done: true });
+    await returned.return!();
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+
+    streamStatus = 503;
+    const failed = await start("subscription { c }");
+    await expect(failed.next()).rejects.toBeInstanceOf(GraphQLHttpError);
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { stableStringify } from "../stable-stringify";
+
+describe("stableStringify", () => {
+  it("ignores key insertion order and undefined properties", () => {
+    expect(stableStringify({ b: 1, a: { d: [1, 2], c: undefined } })).toBe(
+      stableStringify({ a: { d: [1, 2] }, b: 1 }),
+    );
+    expect(stableStringify({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+  });
+
+  it("matches JSON.stringify for values without objects", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.oneof(fc.string(), fc.integer(), fc.boolean(), fc.constant(null))),
+        (value) => {
+          expect(stableStringify(value)).toBe(JSON.stringify(value));
+        },
+      ),
+    );
+  });
+});
@@ -0,0 +1,273 @@
+import { getEventListeners } from "node:events";
+import { describe, expect, it } from "vitest";
+import type { GraphQLOperation } from "../executor";
+import type { WebSocketLike } from "../websocket-subscriber";
+import { createWebSocketSubscriber } from "../websocket-subscriber";
+
+// ─── In-process graphql-transport-ws server ───────────────────────────
+
+type Message = { type: string; id?: string; payload?: any };
+
+class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  readonly received: Message[] = [];
+  private readonly listeners = new Map<string, ((event: any) => void)[]>();
+
+  constructor(
+    readonly server: FakeServer,
+    readonly url: string,
+    readonly protocols?: string | string[],
+  ) {
+    setTimeout(() => {
+      this.readyState = 1;
+      this.emit("open", {});
+    });
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(data: string) {
+    const message = JSON.parse(data) as Message;
+    this.received.push(message);
+    this.server.handle(this, message);
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    setTimeout(() => this.emit("close", { code, reason }));
+  }
+
+  // Server → client
+  push(message: Message) {
+    this.emit("message", { data: JSON.stringify(message) });
+  }
+
+  private emit(type: string, event: unknown) {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+}
+
+class FakeServer {
+  readonly sockets: FakeSocket[] = [];
+  readonly subscriptions = new Map<string, FakeSocket>();
+  onSubscribe?: (socket: FakeSocket, message: Message) => void;
+  acknowledge = true;
+
+  readonly WebSocketImpl = (() => {
+    const server = this;
+    return class extends FakeSocket {
+      constructor(url: string, protocols?: string | string[]) {
+        super(server, url, protocols);
+        server.sockets.push(this);
+      }
+    };
+  })();
+
+  handle(socket: FakeSocket, message: Message) {
+    if (message.type === "connection_init" && this.acknowledge) {
+      socket.push({ type: "connection_ack" });
+    }
+    if (message.type === "subscribe") {
+      this.subscriptions.set(message.id!, socket);
+      this.onSubscribe?.(socket, message);
+    }
+  }
+
+  next(id: string, data: unknown) {
+    this.subscriptions.get(id)!.push({ id, type: "next", payload: { data } });
+  }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function until(condition: () => boolean) {
+  for (let i = 0; i < 50 && !condition(); i++) await tick();
+  expect(condition()).toBe(true);
+}
+
+describe("createWebSocketSubscriber", () => {
+  it("initializes once and multiplexes subscriptions over one socket", async () => {
+    const server = new FakeServer();
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      connectionParams: async () => ({ token: "t" }),
+      WebSocketImpl: server.WebSocketImpl,
+    });
+
+    const a = (await subscriber("subscription A { a }", { x: 1 }))[
+      Symbol.asyncIterator
+    ]();
+    const b = (await subscriber("subscription B { b }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => server.subscriptions.size === 2);
+
+    const [socket] = server.sockets;
+    expect(server.sockets).toHaveLength(1);
+    expect(socket!.protocols).toBe("graphql-transport-ws");
+    expect(socket!.received[0]).toEqual({
+      type: "connection_init",
+      payload: { token: "t" },
+    });
+    expect(socket!.received[1]).toEqual({
+      id: "1",
+      type: "subscribe",
+      payload: { query: "subscription A { a }", variables: { x: 1 } },
+    });
+
+    server.next("2", { b: 1 });
+    server.next("1", { a: 1 });
+    socket!.push({ id: "1", type: "complete" });
+    expect(await a.next()).toEqual({ value: { data: { a: 1 } }, done: false });
+    expect(await a.next()).toEqual({ value: undefined, done: true });
+    expect(await b.next()).toEqual({ value: { data: { b: 1 } }, done: false });
+
+    socket!.push({ id: "2", type: "error", payload: [{ message: "boom" }] });
+    expect(await b.next()).toEqual({
+      value: { errors: [{ message: "boom" }] },
+      done: false,
+    });
+    expect(await b.next()).toEqual({ value: undefined, done: true });
+    expect(socket!.readyState).toBe(3);
+  });
+
+  it("sends complete when the iterator is returned early", async () => {
+    const server = new FakeServer();
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+    });
+    server.onSubscribe = (_socket, message) => server.next(message.id!, { n: 1 });
+
+    for await (const payload of await subscriber("subscription { n }", {})) {
+      expect(payload).toEqual({ data: { n: 1 } });
+      break;
+    }
+
+    const [socket] = server.sockets;
+    expect(socket!.received.at(-1)).toEqual({ id: "1", type: "complete" });
+    expect(socket!.readyState).toBe(3);
+  });
+
+  it("answers pings with pongs", async () => {
+    const server = new FakeServer();
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+    });
+    const iterator = (await subscriber("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => server.subscriptions.size === 1);
+
+    server.sockets[0]!.push({ type: "ping" });
+    expect(server.sockets[0]!.received.at(-1)).toEqual({ type: "pong" });
+    await iterator.return!();
+  });
+
+  it("reconnects with backoff and re-subscribes active subscriptions", async () => {
+    const server = new FakeServer();
+    const delays: number[] = [];
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+      retryDelay: (attempt) => {
+        delays.push(attempt);
+        return 0;
+      },
+    });
+    const iterator = (await subscriber("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => server.subscriptions.size === 1);
+
+    server.subscriptions.clear();
+    server.sockets[0]!.close(1006, "Abnormal Closure");
+    await until(() => server.subscriptions.size === 1);
+
+    expect(server.sockets).toHaveLength(2);
+    expect(delays).toEqual([0]);
+    server.next("1", { n: 2 });
+    expect(await iterator.next()).toEqual({ value: { data: { n: 2 } }, done: false });
+    await iterator.return!();
+  });
+
+  it("fails subscriptions on fatal close codes and exhausted retries", async () => {
+    const server = new FakeServer();
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+      retryDelay: () => 0,
+    });
+    const forbidden = (await subscriber("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => server.subscriptions.size === 1);
+    server.sockets[0]!.close(4403, "Forbidden");
+    await expect(forbidden.next()).rejects.toThrow(
+      "WebSocket closed with code 4403: Forbidden",
+    );
+
+    const noRetry = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+      retryAttempts: 0,
+    });
+    const dropped = (await noRetry("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+    await until(() => server.sockets.length === 2);
+    server.sockets[1]!.close(1006);
+    await expect(dropped.next()).rejects.toThrow("WebSocket closed with code 1006");
+  });
+
+  it("detaches from the abort signal once subscriptions end", async () => {
+    const server = new FakeServer();
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+      retryAttempts: 0,
+    });
+    const { signal } = new AbortController();
+    const operation = { signal } as GraphQLOperation;
+    const start = async () =>
+      (await subscriber("subscription { n }", {}, operation))[Symbol.asyncIterator]();
+
+    const completed = await start();
+    const returned = await start();
+    await until(() => server.subscriptions.size === 2);
+    expect(getEventListeners(signal, "abort")).toHaveLength(2);
+    server.subscriptions.get("1")!.push({ id: "1", type: "complete" });
+    expect(await completed.next()).toEqual({ value: undefined, done: true });
+    await returned.return!();
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+
+    const failed = await start();
+    await until(() => server.sockets.length === 2);
+    server.sockets[1]!.close(1006);
+    await expect(failed.next()).rejects.toThrow("WebSocket closed with code 1006");
+    expect(getEventListeners(signal, "abort")).toHaveLength(0);
+  });
+
+  it("fails pending subscriptions when connection_ack times out", async () => {
+    const server = new FakeServer();
+    server.acknowledge = false;
+    const subscriber = createWebSocketSubscriber({
+      url: "ws://test/graphql",
+      WebSocketImpl: server.WebSocketImpl,
+      connectionAckTimeout: 10,
+    });
+    const iterator = (await subscriber("subscription { n }", {}))[
+      Symbol.asyncIterator
+    ]();
+
+    await expect(iterator.next()).rejects.toThrow(
+      "WebSocket connection_ack not received within 10ms",
+    );
+    expect(server.sockets[0]!.readyState).toBe(3);
+    expect(server.subscriptions.size).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+// ─── AsyncQueue ───────────────────────────────────────────────────────
+// Bridges push-based sources (sockets, event streams) to the pull-based
+// `AsyncIterable` that subscribers return. Values pushed before the consumer
+// asks for them are buffered; `end(error)` delivers buffered values first.
+
+export interface AsyncQueue<T> extends AsyncIterableIterator<T> {
+  push(value: T): void;
+  end(error?: unknown): void;
+  readonly ended: boolean;
+}
+
+export const createAsyncQueue = <T>(
+  /** Called once when the consumer stops early via `return()`. */
+  onReturn?: () => void,
+): AsyncQueue<T> => {
+  const buffered: T[] = [];
+  const waiting: {
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+  let ended = false;
+  let failure: { readonly error: unknown } | undefined;
+
+  const settleWaiting = () => {
+    while (waiting.length !== 0) {
+      const waiter = waiting.shift()!;
+      if (failure !== undefined) {
+        waiter.reject(failure.error);
+        failure = undefined;
+      } else {
+        waiter.resolve({ value: undefined, done: true });
+      }
+    }
+  };
+
+  const queue: AsyncQueue<T> = {
+    get ended() {
+      return ended;
+    },
+    push(value) {
+      if (ended) return;
+      const waiter = waiting.shift();
+      if (waiter !== undefined) {
+        waiter.resolve({ value, done: false });
+      } else {
+        buffered.push(value);
+      }
+    },
+    end(error) {
+      if (ended) return;
+      ended = true;
+      if (error !== undefined) failure = { error };
+      settleWaiting();
+    },
+    next() {
+      if (buffered.length !== 0) {
+        return Promise.resolve({ value: buffered.shift()!, done: false });
+      }
+      if (ended) {
+        if (failure !== undefined) {
+          const { error } = failure;
+          failure = undefined;
+          return Promise.reject(error);
+        }
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    return() {
+      const wasEnded = ended;
+      ended = true;
+      failure = undefined;
+      buffered.length = 0;
+      settleWaiting();
+      if (!wasEnded) onReturn?.();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return queue;
+    },
+  };
+  return queue;
+};
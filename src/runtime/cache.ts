@@ -0,0 +1,587 @@
+import { resolveRegisteredSchemaType } from "./schema";
+import type { SchemaType } from "./schema";
+import { runtimeOf, StringValue } from "./types";
+import type { FieldSelection, SelectionRuntime } from "./types";
+import { __marker } from "./parameter";
+import type { ParameterRef } from "./parameter";
+import { stableStringify } from "./stable-stringify";
+
+// ─── Store shapes ─────────────────────────────────────────────────────
+// Entities live in `records` keyed by `Typename:id`; every reference to an
+// entity is replaced by `{ __ref }`. Objects without an id stay embedded in
+// their parent record. Field values are keyed by field name plus resolved
+// arguments, so aliases never leak into the store.
+
+type StoreValue =
+  | null
+  | string
+  | number
+  | boolean
+  | StoreReference
+  | StoreObject
+  | readonly StoreValue[];
+
+interface StoreReference {
+  readonly __ref: string;
+}
+
+interface StoreObject {
+  [storeFieldName: string]: StoreValue;
+}
+
+const ROOT_QUERY = "ROOT_QUERY";
+
+const MISSING: unique symbol = Symbol("missing");
+
+type Variables = Readonly<Record<string, unknown>>;
+
+interface CacheWatch {
+  readonly runtime: SelectionRuntime;
+  readonly variables: Variables;
+  readonly callback: (data: Record<string, unknown> | undefined) => void;
+  // Store keys the last read went through; only writes to these re-read.
+  dependencies: Set<string>;
+  // `stableStringify` of the last read, to skip writes that changed nothing selected.
+  last: string;
+}
+
+// Fields written by one optimistic write, merged over the store on read.
+interface OptimisticLayer {
+  readonly records: Map<string, StoreObject>;
+}
+
+interface WriteContext {
+  readonly variables: Variables;
+  // Where entity records are written: the store or an optimistic layer.
+  readonly records: Map<string, StoreObject>;
+  // Store keys whose fields changed, for watches.
+  readonly changes: Set<string>;
+}
+
+/**
+ * What {@link NormalizedCache.invalidate} drops: every entity of a type (or of
+ * its subtypes) given by name, or one entity given by typename and id.
+ */
+export type CacheInvalidationTarget =
+  | string
+  | { readonly typename: string; readonly id: string | number };
+
+// ─── NormalizedCache ──────────────────────────────────────────────────
+
+/**
+ * Normalized entity cache keyed by `__typename` and the id field of each
+ * entity type (the field generated with category `"ID"`, see `idFieldMap`).
+ */
+export class NormalizedCache {
+  private readonly records = new Map<string, StoreObject>();
+  private readonly watches = new Set<CacheWatch>();
+  private readonly layers: OptimisticLayer[] = [];
+
+  /** Store key of one entity, for example `Post:1`. */
+  identify(typename: string, id: string | number): string {
+    return `${typename}:${id}`;
+  }
+
+  /**
+   * Writes one operation result into the store.
+   *
+   * Query root fields are kept so the same selection can be read back later;
+   * for mutations and subscriptions only the entities they return are merged.
+   */
+  write(
+    runtime: SelectionRuntime,
+    variables: Variables,
+    data: Readonly<Record<string, unknown>>,
+  ): void {
+    this.broadcast(
+      this.writeInto(runtime, data, { variables, records: this.records, changes: new Set() }),
+    );
+  }
+
+  /**
+   * Writes a predicted operation result, e.g. of a mutation in flight, into
+   * an optimistic layer read on top of the store until the returned function
+   * removes it. Writes to the store meanwhile stay underneath the layer, so
+   * removing the layer after writing the real result replaces the prediction,
+   * and removing it alone rolls the prediction back.
+   */
+  writeOptimistic(
+    runtime: SelectionRuntime,
+    variables: Variables,
+    data: Readonly<Record<string, unknown>>,
+  ): () => void {
+    const layer: OptimisticLayer = { records: new Map() };
+    this.layers.push(layer);
+    this.broadcast(
+      this.writeInto(runtime, data, { variables, records: layer.records, changes: new Set() }),
+    );
+    return () => {
+      const index = this.layers.indexOf(layer);
+      if (index === -1) return;
+      this.layers.splice(index, 1);
+      this.broadcast(new Set(layer.records.keys()));
+    };
+  }
+
+  /**
+   * Assembles the result of a query selection from the store.
+   * Returns `undefined` unless every selected field is cached.
+   */
+  read(
+    runtime: SelectionRuntime,
+    variables: Variables,
+  ): Record<string, unknown> | undefined {
+    return this.readTracked(runtime, variables, new Set());
+  }
+
+  /**
+   * Calls `callback` with the new result of `read` whenever a write or
+   * `clear` changes what the query selection reads; `undefined` means some
+   * selected field is no longer cached. Returns a function that stops watching.
+   */
+  watch(
+    runtime: SelectionRuntime,
+    variables: Variables,
+    callback: (data: Record<string, unknown> | undefined) => void,
+  ): () => void {
+    const dependencies = new Set<string>();
+    const entry: CacheWatch = {
+      runtime,
+      variables,
+      callback,
+      dependencies,
+      last: stableStringify(this.readTracked(runtime, variables, dependencies)),
+    };
+    this.watches.add(entry);
+    return () => {
+      this.watches.delete(entry);
+    };
+  }
+
+  /**
+   * Drops entities so queries reading them are fetched again; watches of
+   * those queries are called with `undefined`.
+   */
+  invalidate(...targets: readonly CacheInvalidationTarget[]): void {
+    const changes = new Set<string>();
+    for (const records of [this.records, ...this.layers.map((layer) => layer.records)]) {
+      for (const [key, record] of records) {
+        const typename = typeof record.__typename === "string" ? record.__typename : undefined;
+        if (typename === undefined || key === ROOT_QUERY) continue;
+        const invalidated = targets.some((target) =>
+          typeof target === "string"
+            ? isTypeOrSubtype(typename, target)
+            : key === this.identify(target.typename, target.id),
+        );
+        if (invalidated && records.delete(key)) changes.add(key);
+      }
+    }
+    this.broadcast(changes);
+  }
+
+  /** Drops every cached record and optimistic layer. */
+  clear(): void {
+    this.records.clear();
+    this.layers.length = 0;
+    this.broadcast(undefined);
+  }
+
+  // ── Watch ──
+
+  // `changes` holds the store keys a write changed; `undefined` means all.
+  private broadcast(changes: ReadonlySet<string> | undefined): void {
+    if (changes?.size === 0) return;
+    for (const entry of [...this.watches]) {
+      if (!this.watches.has(entry)) continue;
+      if (
+        changes !== undefined &&
+        ![...entry.dependencies].some((key) => changes.has(key))
+      ) {
+        continue;
+      }
+      const dependencies = new Set<string>();
+      const data = this.readTracked(entry.runtime, entry.variables, dependencies);
+      entry.dependencies = dependencies;
+      const serialized = stableStringify(data);
+      if (serialized === entry.last) continue;
+      entry.last = serialized;
+      entry.callback(data);
+    }
+  }
+
+  // ── Write ──
+
+  // Returns the store keys whose fields changed.
+  private writeInto(
+    runtime: SelectionRuntime,
+    data: Readonly<Record<string, unknown>>,
+    context: WriteContext,
+  ): Set<string> {
+    if (runtime.schemaType.name === "Query") {
+      const root = context.records.get(ROOT_QUERY) ?? { __typename: "Query" };
+      const underlying = this.underlying(ROOT_QUERY, context);
+      this.writeObject(runtime, data, root, underlying, ROOT_QUERY, context);
+      context.records.set(ROOT_QUERY, root);
+    } else {
+      this.writeObject(runtime, data, {}, undefined, undefined, context);
+    }
+    return context.changes;
+  }
+
+  // Record read through `key` beneath a layer record being written, whose
+  // missing fields come from it.
+  private underlying(key: string, context: WriteContext): StoreObject | undefined {
+    return context.records !== this.records ? this.lookup(key) : undefined;
+  }
+
+  // `recordKey` is the store key owning `target`, collected into `changes`
+  // when a field value changes; mutation and subscription roots have none.
+  // `underlying` holds the fields a partial layer record doesn't have yet.
+  private writeObject(
+    runtime: SelectionRuntime,
+    data: Readonly<Record<string, unknown>>,
+    target: StoreObject,
+    underlying: StoreObject | undefined,
+    recordKey: string | undefined,
+    context: WriteContext,
+  ): void {
+    for (const [responseKey, field] of runtime.fieldMap) {
+      if (field.name.startsWith("...")) {
+        for (const child of field.childSelections ?? []) {
+          this.writeObject(runtimeOf(child), data, target, underlying, recordKey, context);
+        }
+        continue;
+      }
+      if (!(responseKey in data)) continue;
+      const storeName = storeFieldName(field, context.variables);
+      const previous = storeName in target ? target[storeName] : underlying?.[storeName];
+      const value = this.normalize(
+        data[responseKey],
+        field.childSelections,
+        previous,
+        recordKey,
+        context,
+      );
+      if (
+        recordKey !== undefined &&
+        (previous === undefined || !storeValueEquals(previous, value))
+      ) {
+        context.changes.add(recordKey);
+      }
+      target[storeName] = value;
+    }
+  }
+
+  private normalize(
+    value: unknown,
+    children: FieldSelection["childSelections"],
+    existing: StoreValue | undefined,
+    recordKey: string | undefined,
+    context: WriteContext,
+  ): StoreValue {
+    if (value == null) return null;
+    if (children === undefined || children.length === 0) {
+      return value as StoreValue;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        this.normalize(item, children, undefined, recordKey, context),
+      );
+    }
+
+    const data = value as Record<string, unknown>;
+    const childRuntime = runtimeOf(children[0]!);
+    const typename =
+      typeof data.__typename === "string"
+        ? data.__typename
+        : childRuntime.schemaType.name;
+    const id = entityIdOf(typename, childRuntime, data);
+
+    if (id !== undefined) {
+      const key = this.identify(typename, id);
+      const underlying = this.underlying(key, context);
+      let record = context.records.get(key);
+      if (record === undefined) {
+        record = { __typename: typename };
+        if (underlying === undefined) context.changes.add(key);
+      }
+      for (const child of children) {
+        this.writeObject(runtimeOf(child), data, record, underlying, key, context);
+      }
+      context.records.set(key, record);
+      return { __ref: key };
+    }
+
+    // Embedded objects merge into what an earlier selection already stored.
+    const target: StoreObject = isStoreObject(existing) ? { ...existing } : {};
+    if (typeof data.__typename === "string") {
+      target.__typename = data.__typename;
+    }
+    for (const child of children) {
+      this.writeObject(runtimeOf(child), data, target, undefined, recordKey, context);
+    }
+    return target;
+  }
+
+  // ── Read ──
+
+  // Record as read: the store's, with the fields of optimistic layers on top.
+  private lookup(key: string): StoreObject | undefined {
+    let record = this.records.get(key);
+    for (const layer of this.layers) {
+      const fields = layer.records.get(key);
+      if (fields !== undefined) record = { ...record, ...fields };
+    }
+    return record;
+  }
+
+  // Collects the store keys the read goes through into `dependencies`.
+  private readTracked(
+    runtime: SelectionRuntime,
+    variables: Variables,
+    dependencies: Set<string>,
+  ): Record<string, unknown> | undefined {
+    if (runtime.schemaType.name !== "Query") return undefined;
+    dependencies.add(ROOT_QUERY);
+    const root = this.lookup(ROOT_QUERY);
+    if (root === undefined) return undefined;
+    const out: Record<string, unknown> = {};
+    return this.readInto(runtime, root, variables, out, dependencies) ? out : undefined;
+  }
+
+  private readInto(
+    runtime: SelectionRuntime,
+    record: StoreObject,
+    variables: Variables,
+    out: Record<string, unknown>,
+    dependencies: Set<string>,
+  ): boolean {
+    const typename =
+      typeof record.__typename === "string" ? record.__typename : undefined;
+    for (const [responseKey, field] of runtime.fieldMap) {
+      if (field.name.startsWith("...")) {
+        for (const child of field.childSelections ?? []) {
+          const childRuntime = runtimeOf(child);
+          if (!typeMatches(typename, childRuntime.schemaType.name)) continue;
+          if (!this.readInto(childRuntime, record, variables, out, dependencies)) {
+            return false;
+          }
+        }
+        continue;
+      }
+      if (!isFieldIncluded(field, variables)) continue;
+      const storeName = storeFieldName(field, variables);
+      if (!(storeName in record)) return false;
+      const value = this.denormalize(
+        record[storeName]!,
+        field.childSelections,
+        variables,
+        dependencies,
+      );
+      if (value === MISSING) return false;
+      out[responseKey] = mergeResult(out[responseKey], value);
+    }
+    return true;
+  }
+
+  private denormalize(
+    value: StoreValue,
+    children: FieldSelection["childSelections"],
+    variables: Variables,
+    dependencies: Set<string>,
+  ): unknown {
+    if (value === null) return null;
+    if (children === undefined || children.length === 0) return value;
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value as readonly StoreValue[]) {
+        const result = this.denormalize(item, children, variables, dependencies);
+        if (result === MISSING) return MISSING;
+        items.push(result);
+      }
+      return items;
+    }
+
+    if (isReference(value)) dependencies.add(value.__ref);
+    const record = isReference(value)
+      ? this.lookup(value.__ref)
+      : (value as StoreObject);
+    if (record === undefined) return MISSING;
+    const out: Record<string, unknown> = {};
+    for (const child of children) {
+      if (!this.readInto(runtimeOf(child), record, variables, out, dependencies)) {
+        return MISSING;
+      }
+    }
+    return out;
+  }
+}
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const isReference = (value: StoreValue | undefined): value is StoreReference =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as StoreReference).__ref === "string";
+
+const isStoreObject = (value: StoreValue | undefined): value is StoreObject =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !isReference(value);
+
+const storeValueEquals = (a: StoreValue, b: StoreValue): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => storeValueEquals(item, b[index]!))
+    );
+  }
+  const aKeys = Object.keys(a);
+  return (
+    aKeys.length === Object.keys(b).length &&
+    aKeys.every(
+      (key) =>
+        key in b &&
+        storeValueEquals(
+          (a as StoreObject)[key]!,
+          (b as StoreObject)[key]!,
+        ),
+    )
+  );
+};
+
+// Same response key selected twice (e.g. in a fragment and the parent) merges.
+const mergeResult = (existing: unknown, incoming: unknown): unknown => {
+  if (
+    typeof existing === "object" &&
+    existing !== null &&
+    !Array.isArray(existing) &&
+    typeof incoming === "object" &&
+    incoming !== null &&
+    !Array.isArray(incoming)
+  ) {
+    return { ...existing, ...incoming };
+  }
+  return incoming;
+};
+
+const idFieldNameOf = (schemaType: SchemaType): string | undefined => {
+  for (const field of schemaType.fields.values()) {
+    if (field.category === "ID") return field.name;
+  }
+  return undefined;
+};
+
+const entityIdOf = (
+  typename: string,
+  runtime: SelectionRuntime,
+  data: Readonly<Record<string, unknown>>,
+): string | number | undefined => {
+  const schemaType =
+    resolveRegisteredSchemaType(typename) ?? runtime.schemaType;
+  const idFieldName = idFieldNameOf(schemaType);
+  if (idFieldName === undefined) return undefined;
+  const responseKey = responseKeyOf(runtime, idFieldName);
+  const id = responseKey !== undefined ? data[responseKey] : undefined;
+  return typeof id === "string" || typeof id === "number" ? id : undefined;
+};
+
+// The id field may be aliased or selected inside a fragment.
+const responseKeyOf = (
+  runtime: SelectionRuntime,
+  fieldName: string,
+): string | undefined => {
+  for (const [key, field] of runtime.fieldMap) {
+    if (field.name === fieldName) return key;
+    if (field.name.startsWith("...")) {
+      for (const child of field.childSelections ?? []) {
+        const nested = responseKeyOf(runtimeOf(child), fieldName);
+        if (nested !== undefined) return nested;
+      }
+    }
+  }
+  return undefined;
+};
+
+const typeMatches = (
+  typename: string | undefined,
+  condition: string,
+): boolean => {
+  if (typename === undefined || typename === condition) return true;
+  const schemaType = resolveRegisteredSchemaType(typename);
+  // Unknown concrete types can't be ruled out.
+  if (schemaType === undefined) return true;
+  return isSubtypeOf(schemaType, condition);
+};
+
+const isTypeOrSubtype = (typename: string, condition: string): boolean => {
+  if (typename === condition) return true;
+  const schemaType = resolveRegisteredSchemaType(typename);
+  return schemaType !== undefined && isSubtypeOf(schemaType, condition);
+};
+
+const isSubtypeOf = (schemaType: SchemaType, condition: string): boolean =>
+  schemaType.interfaces.some(
+    (superType) =>
+      superType.name === condition || isSubtypeOf(superType, condition),
+  );
+
+const storeFieldName = (
+  field: FieldSelection,
+  variables: Variables,
+): string => {
+  if (field.args === undefined || Object.keys(field.args).length === 0) {
+    return field.name;
+  }
+  return `${field.name}(${stableStringify(resolveArgs(field.args, variables))})`;
+};
+
+// Literal and variable arguments with equal values share one store entry.
+const resolveArgs = (value: unknown, variables: Variables): unknown => {
+  if (value == null) return null;
+  if ((value as Record<symbol, unknown>)[__marker]) {
+    return variables[(value as ParameterRef<string>).name] ?? null;
+  }
+  if (value instanceof StringValue) return value.value;
+  if (Array.isArray(value) || value instanceof Set) {
+    return Array.from(value, (item) => resolveArgs(item, variables));
+  }
+  if (value instanceof Map) {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of value) out[k] = resolveArgs(v, variables);
+    return out;
+  }
+  if (typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const k in value) {
+      out[k] = resolveArgs((value as Record<string, unknown>)[k], variables);
+    }
+    return out;
+  }
+  return value;
+};
+
+const isFieldIncluded = (
+  field: FieldSelection,
+  variables: Variables,
+): boolean => {
+  const directives = field.fieldOptionsValue?.directives;
+  if (directives === undefined) return true;
+  const include = directives.get("include");
+  if (include !== undefined && !resolveArgs(include.if, variables)) {
+    return false;
+  }
+  const skip = directives.get("skip");
+  if (skip !== undefined && resolveArgs(skip.if, variables)) {
+    return false;
+  }
+  return true;
+};
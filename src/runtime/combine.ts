@@ -0,0 +1,232 @@
+import { ParameterRef } from "./parameter";
+import { SelectionImpl, withOperationName } from "./selection";
+import { stableStringify } from "./stable-stringify";
+import { runtimeOf } from "./types";
+import type {
+  DirectiveArgs,
+  Selection,
+  SelectionRuntime,
+  ShapeOf,
+  VariablesOf,
+} from "./types";
+
+// ─── Combined operations ──────────────────────────────────────────────
+
+export type CombinedShape<M> = { [K in keyof M]: ShapeOf<M[K]> };
+
+/** Per-member variables; members without required variables may be omitted. */
+export type CombinedVariables<M> = {
+  [K in keyof M as {} extends VariablesOf<M[K]> ? never : K]: VariablesOf<M[K]>;
+} & {
+  [K in keyof M as {} extends VariablesOf<M[K]> ? K : never]?: VariablesOf<M[K]>;
+};
+
+export interface CombinedSelection<
+  E extends string,
+  M extends { readonly [key: string]: Selection<E, object, object> },
+> {
+  /** The merged root selection; execute it like any other selection. */
+  readonly selection: Selection<E, Record<string, unknown>, Record<string, unknown>>;
+  /** Maps per-member variables to the variables of the merged operation. */
+  variables(variables?: CombinedVariables<M>): Record<string, unknown>;
+  /** Splits data of the merged operation back into per-member results. */
+  split(data: object): CombinedShape<M>;
+}
+
+/**
+ * Merges root selections of the same operation type into one operation so
+ * they are sent in a single round trip.
+ *
+ * Root fields whose response keys collide across members are aliased as
+ * `<member>_<key>`, and variables used by more than one member are renamed
+ * the same way. Fragments shared by members are sent once.
+ *
+ * @example
+ * ```ts
+ * const combined = combine({ viewer: viewerQuery, post: postQuery }, "Page");
+ * const data = await execute(combined.selection, {
+ *   variables: combined.variables({ post: { id } }),
+ * });
+ * const { viewer, post } = combined.split(data);
+ * ```
+ */
+export const combine = <
+  E extends string,
+  M extends { readonly [key: string]: Selection<E, object, object> },
+>(
+  members: M,
+  operationName?: string,
+): CombinedSelection<E, M> => {
+  const entries = Object.entries(members);
+  if (entries.length === 0) {
+    throw new Error("combine requires at least one selection");
+  }
+  const first = runtimeOf(entries[0]![1]) as SelectionImpl<E, object, object>;
+  const schemaType = first.schemaType;
+  let merged = new SelectionImpl<E, object, object>(
+    [schemaType, first.enumInputMetadata, undefined],
+    false,
+    "",
+  );
+
+  const responseKeyOwners = new Map<string, string>();
+  const variableOwners = new Map<string, string>();
+  const directives = new Map<string, string>();
+  const plans: MemberPlan[] = [];
+
+  for (const [member, selection] of entries) {
+    let runtime = runtimeOf(selection) as SelectionImpl<E, object, object>;
+    if (runtime.schemaType.name !== schemaType.name) {
+      throw new Error(
+        `Cannot combine '${member}' (${runtime.schemaType.name}) with ${schemaType.name} selections`,
+      );
+    }
+
+    const variableNames = new Map<string, string>();
+    for (const name of runtime.variableTypeMap.keys()) {
+      const mergedName = variableOwners.has(name)
+        ? uniqueName(`${member}_${name}`, variableOwners)
+        : name;
+      variableOwners.set(mergedName, member);
+      variableNames.set(name, mergedName);
+    }
+    if ([...variableNames].some(([name, mergedName]) => name !== mergedName)) {
+      runtime = runtime.mapParameterRefs((ref) =>
+        ParameterRef.of(variableNames.get(ref.name) ?? ref.name, ref.graphqlTypeName),
+      );
+    }
+
+    const responseKeys = new Map<string, string>();
+    for (const [key, field] of runtime.fieldMap) {
+      if (field.name.startsWith("...")) {
+        // Fragment fields cannot be aliased from the outside.
+        for (const child of field.childSelections ?? []) {
+          for (const childKey of responseKeysOf(runtimeOf(child))) {
+            const owner = responseKeyOwners.get(childKey);
+            if (owner !== undefined && owner !== member) {
+              throw new Error(
+                `Cannot combine '${member}': its root fragment selects '${childKey}', which is also selected by '${owner}'`,
+              );
+            }
+            responseKeyOwners.set(childKey, member);
+            responseKeys.set(childKey, childKey);
+          }
+          merged = merged.addEmbeddable(
+            child as SelectionImpl<string, object, object>,
+            field.name.startsWith("... on ") || field.name === "..."
+              ? undefined
+              : field.name.substring("...".length).trim(),
+          );
+        }
+        continue;
+      }
+      const owner = responseKeyOwners.get(key);
+      const mergedKey =
+        owner !== undefined && owner !== member
+          ? uniqueName(`${member}_${key}`, responseKeyOwners)
+          : key;
+      responseKeyOwners.set(mergedKey, member);
+      responseKeys.set(key, mergedKey);
+      merged = merged.addField(
+        field.name,
+        field.args as { [key: string]: unknown } | undefined,
+        field.childSelections?.[0] as SelectionImpl<string, object, object> | undefined,
+        mergedKey !== key || field.fieldOptionsValue !== undefined
+          ? {
+              alias: mergedKey !== field.name ? mergedKey : undefined,
+              directives: field.fieldOptionsValue?.directives ?? new Map(),
+            }
+          : undefined,
+      );
+    }
+
+    for (const [directive, args] of runtime.directiveMap) {
+      merged = mergeDirective(merged, directives, member, directive, args);
+    }
+    plans.push({ member, variableNames, responseKeys });
+  }
+
+  const selection = withOperationName(merged, operationName) as unknown as Selection<
+    E,
+    Record<string, unknown>,
+    Record<string, unknown>
+  >;
+
+  return {
+    selection,
+    variables(variables) {
+      const out: Record<string, unknown> = {};
+      for (const { member, variableNames } of plans) {
+        const values = (variables as Record<string, object | undefined> | undefined)?.[
+          member
+        ];
+        if (values === undefined) continue;
+        for (const [name, value] of Object.entries(values)) {
+          out[variableNames.get(name) ?? name] = value;
+        }
+      }
+      return out;
+    },
+    split(data) {
+      const source = data as Record<string, unknown>;
+      const out: Record<string, Record<string, unknown>> = {};
+      for (const { member, responseKeys } of plans) {
+        const result: Record<string, unknown> = {};
+        for (const [key, mergedKey] of responseKeys) {
+          if (mergedKey in source) result[key] = source[mergedKey];
+        }
+        out[member] = result;
+      }
+      return out as CombinedShape<M>;
+    },
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+interface MemberPlan {
+  readonly member: string;
+  /** Variable name in the member → name in the merged operation. */
+  readonly variableNames: ReadonlyMap<string, string>;
+  /** Root response key in the member → key in the merged response. */
+  readonly responseKeys: ReadonlyMap<string, string>;
+}
+
+const uniqueName = (base: string, taken: ReadonlyMap<string, unknown>): string => {
+  let name = base;
+  for (let index = 2; taken.has(name); index++) name = `${base}_${index}`;
+  return name;
+};
+
+const responseKeysOf = (runtime: SelectionRuntime): string[] => {
+  const keys: string[] = [];
+  for (const [key, field] of runtime.fieldMap) {
+    if (!field.name.startsWith("...")) {
+      keys.push(key);
+      continue;
+    }
+    for (const child of field.childSelections ?? []) {
+      keys.push(...responseKeysOf(runtimeOf(child)));
+    }
+  }
+  return keys;
+};
+
+const mergeDirective = <E extends string>(
+  merged: SelectionImpl<E, object, object>,
+  directives: Map<string, string>,
+  member: string,
+  directive: string,
+  args: DirectiveArgs,
+): SelectionImpl<E, object, object> => {
+  const serialized = stableStringify(args ?? {});
+  const existing = directives.get(directive);
+  if (existing === serialized) return merged;
+  if (existing !== undefined) {
+    throw new Error(
+      `Cannot combine '${member}': directive '@${directive}' conflicts with another selection`,
+    );
+  }
+  directives.set(directive, serialized);
+  return merged.addDirective(directive, args);
+};
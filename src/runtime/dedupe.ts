@@ -0,0 +1,77 @@
+import { cyrb53 } from "./cyrb53";
+import type { GraphQLExecutorMiddleware } from "./executor";
+import { stableStringify } from "./stable-stringify";
+
+interface InFlightRequest {
+  readonly promise: Promise<unknown>;
+  readonly controller: AbortController;
+  // Callers that can still cancel; the shared call aborts when all of them do.
+  cancellable: number;
+  // Set once a caller without a signal joins; such a request is never aborted.
+  pinned: boolean;
+}
+
+/**
+ * Executor middleware sharing one in-flight call between identical queries.
+ *
+ * Queries are identical when their document text and variables match
+ * (variables compare by value, independent of key order). Mutations always
+ * pass through. The shared call is only aborted once every caller has aborted.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(composeExecutor(dedupeExecutor(), httpExecutor));
+ * ```
+ */
+export const dedupeExecutor = (): GraphQLExecutorMiddleware => {
+  const inFlight = new Map<string, InFlightRequest>();
+
+  return (operation, next) => {
+    if (operation.operationType !== "query") return next(operation);
+    const signal = operation.signal;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const key = requestKeyOf(operation.request, operation.variables);
+    let entry = inFlight.get(key);
+    if (entry === undefined) {
+      const controller = new AbortController();
+      const promise = next({ ...operation, signal: controller.signal });
+      const created: InFlightRequest = {
+        promise,
+        controller,
+        cancellable: 0,
+        pinned: false,
+      };
+      const release = () => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      };
+      promise.then(release, release);
+      inFlight.set(key, created);
+      entry = created;
+    }
+
+    if (signal === undefined) {
+      entry.pinned = true;
+      return entry.promise;
+    }
+    const shared = entry;
+    shared.cancellable++;
+    const onAbort = () => {
+      if (--shared.cancellable !== 0 || shared.pinned) return;
+      // Later identical queries must not join an aborted call.
+      if (inFlight.get(key) === shared) inFlight.delete(key);
+      shared.controller.abort(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => signal.removeEventListener("abort", onAbort);
+    shared.promise.then(cleanup, cleanup);
+    return shared.promise;
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const requestKeyOf = (
+  request: string,
+  variables: Record<string, unknown>,
+): string => cyrb53(`${request}\n${stableStringify(variables)}`);
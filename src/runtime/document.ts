@@ -0,0 +1,69 @@
+import { TextBuilder } from "./text-builder";
+import { runtimeOf } from "./types";
+import type { Selection } from "./types";
+
+// ─── Operation documents ──────────────────────────────────────────────
+
+/**
+ * Builds the GraphQL document sent for a root selection:
+ * the operation with its variable declarations, followed by its fragments.
+ */
+export const buildOperationDocument = (
+  selection: Selection<string, object, object>,
+  operationName?: string,
+): string => {
+  const runtime = runtimeOf(selection);
+  const writer = new TextBuilder();
+  writer.text(
+    `${runtime.schemaType.name.toLowerCase()} ${operationName ?? runtime.operationName ?? ""}`,
+  );
+  if (runtime.variableTypeMap.size !== 0) {
+    writer.scope(
+      {
+        type: "arguments",
+        multiLines: runtime.variableTypeMap.size > 2,
+        suffix: " ",
+      },
+      () => {
+        for (const [name, type] of runtime.variableTypeMap) {
+          writer.separator();
+          writer.text(`$${name}: ${type}`);
+        }
+      },
+    );
+  }
+  writer.text(selection.toString());
+  writer.text(selection.toFragmentString());
+  return writer.toString();
+};
+
+// ─── Operation collection ─────────────────────────────────────────────
+// Build tools install a collector to learn every operation an app defines.
+// The slot lives on `globalThis` so it also sees selections created by other
+// copies of this module (e.g. one bundled into the Vite plugin).
+
+const OPERATION_COLLECTOR = Symbol.for("@ptdgrp/typedgql/operation-collector");
+
+const ROOT_TYPE_NAMES = new Set(["Query", "Mutation", "Subscription"]);
+
+export type OperationCollector = (document: string) => void;
+
+export const setOperationCollector = (
+  collector: OperationCollector | undefined,
+): void => {
+  (globalThis as Record<symbol, unknown>)[OPERATION_COLLECTOR] = collector;
+};
+
+export const hasOperationCollector = (): boolean =>
+  (globalThis as Record<symbol, unknown>)[OPERATION_COLLECTOR] !== undefined;
+
+export const notifyOperationCollector = (
+  selection: Selection<string, object, object>,
+): void => {
+  const collector = (globalThis as Record<symbol, unknown>)[
+    OPERATION_COLLECTOR
+  ] as OperationCollector | undefined;
+  if (collector === undefined) return;
+  if (!ROOT_TYPE_NAMES.has(runtimeOf(selection).schemaType.name)) return;
+  collector(buildOperationDocument(selection));
+};
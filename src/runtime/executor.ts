@@ -0,0 +1,153 @@
+import type { SelectionRuntime } from "./types";
+
+// ─── Transport contract ───────────────────────────────────────────────
+
+/**
+ * Root operation kind, derived from the root schema type of a selection.
+ */
+export type GraphQLOperationType = "query" | "mutation" | "subscription";
+
+/**
+ * Everything known about one outgoing GraphQL operation.
+ *
+ * Passed as the last argument to executors/subscribers and threaded through
+ * middleware. Middleware never mutates an operation; it forwards a copy.
+ */
+export interface GraphQLOperation {
+  /** Full GraphQL document text (operation + fragments). */
+  readonly request: string;
+  /** Variable values sent with the document. */
+  readonly variables: Record<string, unknown>;
+  /** Effective operation name, if any. */
+  readonly operationName?: string;
+  /** Root operation kind. */
+  readonly operationType: GraphQLOperationType;
+  /** Runtime metadata of the selection that produced `request`. */
+  readonly runtime: SelectionRuntime;
+  /**
+   * Aborted when the caller cancels or the operation times out.
+   * Transports should stop sending/receiving and release resources.
+   */
+  readonly signal?: AbortSignal;
+  /**
+   * Request extensions sent next to `query` and `variables`,
+   * for example `persistedQuery` for automatic persisted queries.
+   */
+  readonly extensions?: Readonly<Record<string, unknown>>;
+  /**
+   * `false` when the server resolves the document from `extensions` alone;
+   * transports then leave `query` out of the request. Defaults to `true`.
+   */
+  readonly includeQuery?: boolean;
+  /**
+   * Id of a persisted document registered ahead of time. Transports send it
+   * as `documentId`; usually paired with `includeQuery: false`.
+   */
+  readonly documentId?: string;
+  /**
+   * Free-form per-operation values shared between middleware and transports,
+   * for example `headers` for HTTP transports.
+   */
+  readonly context: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Sends one query/mutation and resolves the raw GraphQL response.
+ */
+export type GraphQLExecutor = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation?: GraphQLOperation,
+) => Promise<unknown>;
+
+/**
+ * Opens one subscription and yields raw GraphQL responses.
+ */
+export type GraphQLSubscriber = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation?: GraphQLOperation,
+) => AsyncIterable<unknown> | Promise<AsyncIterable<unknown>>;
+
+// ─── Middleware ───────────────────────────────────────────────────────
+
+/**
+ * One link of an executor/subscriber pipeline.
+ *
+ * `TResponse` is `Promise<unknown>` for executors and `AsyncIterable<unknown>`
+ * for subscribers. A middleware written generically over the response type
+ * (for example one that only adds headers) can be used in both pipelines.
+ */
+export type GraphQLMiddleware<TResponse> = (
+  operation: GraphQLOperation,
+  next: (operation: GraphQLOperation) => TResponse,
+) => TResponse;
+
+export type GraphQLExecutorMiddleware = GraphQLMiddleware<Promise<unknown>>;
+
+export type GraphQLSubscriberMiddleware = GraphQLMiddleware<
+  AsyncIterable<unknown>
+>;
+
+/**
+ * Composes middleware in front of a terminal executor.
+ * Middleware run left to right; the executor is always last.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(composeExecutor(auth(), logger(), httpExecutor));
+ * ```
+ */
+export const composeExecutor = (
+  ...chain: [...GraphQLExecutorMiddleware[], GraphQLExecutor]
+): GraphQLExecutor => {
+  const middlewares = chain.slice(0, -1) as GraphQLExecutorMiddleware[];
+  const executor = chain[chain.length - 1] as GraphQLExecutor;
+  const terminal = (operation: GraphQLOperation) =>
+    executor(operation.request, operation.variables, operation);
+  const pipeline = middlewares.reduceRight<
+    (operation: GraphQLOperation) => Promise<unknown>
+  >((next, middleware) => (operation) => middleware(operation, next), terminal);
+  return (request, variables, operation) =>
+    pipeline(resolveOperation(request, variables, operation));
+};
+
+/**
+ * Composes middleware in front of a terminal subscriber.
+ * Middleware run left to right; the subscriber is always last.
+ */
+export const composeSubscriber = (
+  ...chain: [...GraphQLSubscriberMiddleware[], GraphQLSubscriber]
+): GraphQLSubscriber => {
+  const middlewares = chain.slice(0, -1) as GraphQLSubscriberMiddleware[];
+  const subscriber = chain[chain.length - 1] as GraphQLSubscriber;
+  // Flatten `Promise<AsyncIterable>` so middleware always see a plain stream.
+  const terminal = (operation: GraphQLOperation): AsyncIterable<unknown> =>
+    (async function* () {
+      yield* await subscriber(operation.request, operation.variables, operation);
+    })();
+  const pipeline = middlewares.reduceRight<
+    (operation: GraphQLOperation) => AsyncIterable<unknown>
+  >((next, middleware) => (operation) => middleware(operation, next), terminal);
+  return (request, variables, operation) =>
+    pipeline(resolveOperation(request, variables, operation));
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+// Middleware work on the full operation, so composed pipelines require the one
+// passed by `execute`/`subscribe`; request and variables given alongside win.
+const resolveOperation = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation: GraphQLOperation | undefined,
+): GraphQLOperation => {
+  if (operation === undefined) {
+    throw new Error(
+      "Composed executors and subscribers require the operation argument passed by 'execute'/'subscribe'",
+    );
+  }
+  return operation.request === request && operation.variables === variables
+    ? operation
+    : { ...operation, request, variables };
+};
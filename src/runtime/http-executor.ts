@@ -0,0 +1,218 @@
+import type { GraphQLExecutor, GraphQLOperation } from "./executor";
+import { readMultipartMixed } from "./incremental";
+import { createMultipartBody, extractFiles } from "./multipart";
+
+// ─── HTTP transport ───────────────────────────────────────────────────
+
+export type HttpHeaders = Readonly<Record<string, string>>;
+
+export interface HttpExecutorOptions {
+  /** GraphQL endpoint. */
+  readonly url: string;
+  /**
+   * Extra request headers, or a function computing them per operation
+   * (e.g. to read a fresh token). `operation.context.headers` set by
+   * middleware are applied last.
+   */
+  readonly headers?:
+    | HttpHeaders
+    | ((operation: GraphQLOperation | undefined) => HttpHeaders | Promise<HttpHeaders>);
+  /**
+   * - "POST": every operation is sent as a JSON body (default).
+   * - "GET": queries are sent as URL parameters so CDNs can cache them;
+   *   mutations are always POSTed.
+   * - "auto": like "GET", but falls back to POST when the URL would exceed
+   *   `maxUrlLength`.
+   */
+  readonly method?: "POST" | "GET" | "auto";
+  /** Upper URL length for `method: "auto"`. Defaults to 2048. */
+  readonly maxUrlLength?: number;
+  readonly credentials?: RequestInit["credentials"];
+  /** `fetch` implementation, defaults to the global one. */
+  readonly fetch?: typeof fetch;
+}
+
+/**
+ * Thrown when the server answers with a non-GraphQL HTTP error.
+ */
+export class GraphQLHttpError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  /** Raw response body, if it could be read. */
+  readonly body?: string;
+
+  constructor(status: number, statusText: string, body?: string) {
+    super(`GraphQL request failed with HTTP ${status}${statusText ? ` ${statusText}` : ""}`);
+    this.name = "GraphQLHttpError";
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+/**
+ * Creates a `fetch`-based executor following the GraphQL over HTTP spec.
+ *
+ * Honors `operation.signal`, `operation.extensions`, `operation.documentId`
+ * and `operation.includeQuery`. Variables containing `File`/`Blob` values are
+ * sent as a GraphQL multipart request. Operations using `@defer`/`@stream`
+ * also accept `multipart/mixed` responses, which resolve to an
+ * `AsyncIterable` of incremental payloads.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(
+ *   createHttpExecutor({ url: "/graphql", method: "auto", credentials: "include" }),
+ * );
+ * ```
+ */
+export const createHttpExecutor = (
+  options: HttpExecutorOptions,
+): GraphQLExecutor => {
+  const method = options.method ?? "POST";
+  const maxUrlLength = options.maxUrlLength ?? 2048;
+
+  return async (request, variables, operation) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const { clone, files } = extractFiles(variables, "variables");
+    const params = requestParamsOf(request, clone, operation);
+    const headers: Record<string, string> = {
+      accept: INCREMENTAL_DIRECTIVE.test(request)
+        ? `${INCREMENTAL_RESPONSE_ACCEPT}, ${GRAPHQL_RESPONSE_ACCEPT}`
+        : GRAPHQL_RESPONSE_ACCEPT,
+      ...(await resolveHeaders(options.headers, operation)),
+    };
+
+    // Files are sent as a multipart request, which `fetch` gives its own
+    // content type with the boundary.
+    if (files.size !== 0) {
+      const response = await fetchImpl(options.url, {
+        method: "POST",
+        headers,
+        body: createMultipartBody(params, files),
+        credentials: options.credentials,
+        signal: operation?.signal,
+      });
+      return readGraphQLResponse(response);
+    }
+
+    // Mutations must never be sent as GET.
+    let url: string | undefined;
+    if (method !== "POST" && operation?.operationType === "query") {
+      url = appendSearchParams(options.url, params);
+      if (method === "auto" && url.length > maxUrlLength) url = undefined;
+    }
+
+    const response = await fetchImpl(url ?? options.url, {
+      method: url !== undefined ? "GET" : "POST",
+      headers:
+        url !== undefined
+          ? headers
+          : { "content-type": "application/json", ...headers },
+      body: url !== undefined ? undefined : JSON.stringify(params),
+      credentials: options.credentials,
+      signal: operation?.signal,
+    });
+    return readGraphQLResponse(response);
+  };
+};
+
+// ─── Shared with the other fetch-based transports ────────────────────
+
+export interface RequestParams {
+  readonly query?: string;
+  readonly variables?: Record<string, unknown>;
+  readonly operationName?: string;
+  readonly extensions?: Readonly<Record<string, unknown>>;
+  readonly documentId?: string;
+}
+
+/** Merges the `headers` option with `operation.context.headers` set by middleware. */
+export const resolveHeaders = async (
+  headers: HttpExecutorOptions["headers"],
+  operation: GraphQLOperation | undefined,
+): Promise<Record<string, string>> => ({
+  ...(typeof headers === "function" ? await headers(operation) : headers),
+  ...(operation?.context.headers as HttpHeaders | undefined),
+});
+
+export const requestParamsOf = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation: GraphQLOperation | undefined,
+): RequestParams => ({
+  query: operation?.includeQuery === false ? undefined : request,
+  variables: Object.keys(variables).length !== 0 ? variables : undefined,
+  operationName: operation?.operationName || undefined,
+  extensions: operation?.extensions,
+  documentId: operation?.documentId,
+});
+
+/**
+ * Reads a JSON response body. `application/graphql-response+json` keeps
+ * GraphQL errors in the body even for 4xx/5xx statuses; plain JSON only
+ * carries them with 2xx.
+ */
+export const readJsonResponse = async (
+  response: Response,
+): Promise<{ readonly body: unknown; readonly text: string }> => {
+  const contentType = response.headers.get("content-type") ?? "";
+  const graphqlResponse = contentType.includes("application/graphql-response+json");
+  if (!response.ok && !graphqlResponse) {
+    throw new GraphQLHttpError(
+      response.status,
+      response.statusText,
+      await response.text().catch(() => undefined),
+    );
+  }
+  const text = await response.text();
+  try {
+    return { body: JSON.parse(text), text };
+  } catch {
+    throw new GraphQLHttpError(response.status, response.statusText, text);
+  }
+};
+
+export const isGraphQLResponse = (body: unknown): boolean =>
+  typeof body === "object" &&
+  body !== null &&
+  ("data" in body || "errors" in body);
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const GRAPHQL_RESPONSE_ACCEPT =
+  "application/graphql-response+json, application/json;q=0.9";
+
+const INCREMENTAL_RESPONSE_ACCEPT = "multipart/mixed;deferSpec=20220824";
+
+const INCREMENTAL_DIRECTIVE = /@(defer|stream)\b/;
+
+const appendSearchParams = (url: string, params: RequestParams): string => {
+  const search = new URLSearchParams();
+  if (params.query !== undefined) search.set("query", params.query);
+  if (params.variables !== undefined) {
+    search.set("variables", JSON.stringify(params.variables));
+  }
+  if (params.operationName !== undefined) {
+    search.set("operationName", params.operationName);
+  }
+  if (params.extensions !== undefined) {
+    search.set("extensions", JSON.stringify(params.extensions));
+  }
+  if (params.documentId !== undefined) {
+    search.set("documentId", params.documentId);
+  }
+  return `${url}${url.includes("?") ? "&" : "?"}${search.toString()}`;
+};
+
+const readGraphQLResponse = async (response: Response): Promise<unknown> => {
+  const contentType = response.headers.get("content-type") ?? "";
+  if (response.ok && contentType.startsWith("multipart/mixed")) {
+    return readMultipartMixed(response);
+  }
+  const { body, text } = await readJsonResponse(response);
+  if (!isGraphQLResponse(body)) {
+    throw new GraphQLHttpError(response.status, response.statusText, text);
+  }
+  return body;
+};
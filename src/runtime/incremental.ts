@@ -0,0 +1,195 @@
+// ─── Incremental delivery (@defer / @stream) ──────────────────────────
+
+/** The response merged from every incremental payload received so far. */
+export interface IncrementalResult {
+  readonly data?: Record<string, unknown> | null;
+  readonly errors?: readonly unknown[];
+  readonly extensions?: Readonly<Record<string, unknown>>;
+  /** `false` once every deferred fragment and stream has been delivered. */
+  readonly hasNext: boolean;
+}
+
+/**
+ * Merges incremental payloads into progressively complete responses, one per
+ * payload. Each result is a new object; parts that did not change are shared.
+ *
+ * `response` is what an executor resolved to: a stream of payloads (e.g. from
+ * a `multipart/mixed` response) or a single, complete response. Both the
+ * `incremental: [{ data | items, path }]` format and the newer
+ * `pending`/`incremental: [{ id }]`/`completed` format are understood.
+ *
+ * @example
+ * ```ts
+ * for await (const result of mergeIncrementalPayloads(await executor(query, {}))) {
+ *   render(result.data);
+ * }
+ * ```
+ */
+export async function* mergeIncrementalPayloads(
+  response: unknown,
+): AsyncGenerator<IncrementalResult> {
+  if (!isAsyncIterable(response)) {
+    yield { ...(response as IncrementalPayload), hasNext: false };
+    return;
+  }
+  const pending = new Map<string, readonly PathSegment[]>();
+  let result: IncrementalResult = { hasNext: true };
+  for await (const value of response) {
+    const payload = (value ?? {}) as IncrementalPayload;
+    let { errors, extensions } = result;
+    let data: unknown = payload.data !== undefined ? payload.data : result.data;
+    const payloadErrors = [...(payload.errors ?? [])];
+
+    for (const entry of payload.pending ?? []) {
+      pending.set(entry.id, entry.path);
+    }
+    for (const entry of payload.incremental ?? []) {
+      const base = entry.id !== undefined ? pending.get(entry.id) : entry.path;
+      if (base === undefined) continue;
+      if (entry.items !== undefined) {
+        // `path` ends with the index of the first item; `pending` paths
+        // point at the list itself and items are appended.
+        const listPath = entry.id !== undefined ? base : base.slice(0, -1);
+        const start = entry.id !== undefined ? undefined : (base.at(-1) as number);
+        data = updateAt(data, listPath, 0, (list) =>
+          appendItems(list, entry.items!, start),
+        );
+      } else if (entry.data !== undefined) {
+        data = updateAt(data, [...base, ...(entry.subPath ?? [])], 0, (target) =>
+          deepMerge(target, entry.data),
+        );
+      }
+      payloadErrors.push(...(entry.errors ?? []));
+      if (entry.extensions !== undefined) {
+        extensions = { ...extensions, ...entry.extensions };
+      }
+    }
+    for (const entry of payload.completed ?? []) {
+      pending.delete(entry.id);
+      payloadErrors.push(...(entry.errors ?? []));
+    }
+
+    if (payloadErrors.length !== 0) {
+      errors = [...(errors ?? []), ...payloadErrors];
+    }
+    if (payload.extensions !== undefined) {
+      extensions = { ...extensions, ...payload.extensions };
+    }
+    result = {
+      ...(data !== undefined ? { data: data as Record<string, unknown> | null } : undefined),
+      ...(errors !== undefined ? { errors } : undefined),
+      ...(extensions !== undefined ? { extensions } : undefined),
+      hasNext: payload.hasNext === true,
+    };
+    yield result;
+    if (!result.hasNext) return;
+  }
+}
+
+/**
+ * Parses a `multipart/mixed` response body into its JSON parts, as sent by
+ * servers answering `@defer`/`@stream` operations over HTTP.
+ */
+export async function* readMultipartMixed(
+  response: Response,
+): AsyncGenerator<unknown> {
+  const contentType = response.headers.get("content-type") ?? "";
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1] ?? "-";
+  const delimiter = `\n--${boundary}`;
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  // The leading newline lets a delimiter at the very start match too.
+  let buffer = "\n";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let index: number;
+      while ((index = buffer.indexOf(delimiter)) !== -1) {
+        const part = buffer.slice(0, index);
+        buffer = buffer.slice(index + delimiter.length);
+        // The preamble and the epilogue after the closing `--` have no headers.
+        const headerEnd = /\r?\n\r?\n/.exec(part);
+        if (headerEnd === null) continue;
+        const body = part.slice(headerEnd.index + headerEnd[0].length).trim();
+        if (body !== "") yield JSON.parse(body);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+type PathSegment = string | number;
+
+interface IncrementalPayload {
+  readonly data?: Record<string, unknown> | null;
+  readonly errors?: readonly unknown[];
+  readonly extensions?: Readonly<Record<string, unknown>>;
+  readonly hasNext?: boolean;
+  readonly pending?: readonly { readonly id: string; readonly path: readonly PathSegment[] }[];
+  readonly incremental?: readonly {
+    readonly id?: string;
+    readonly path?: readonly PathSegment[];
+    readonly subPath?: readonly PathSegment[];
+    readonly data?: Record<string, unknown>;
+    readonly items?: readonly unknown[];
+    readonly errors?: readonly unknown[];
+    readonly extensions?: Readonly<Record<string, unknown>>;
+  }[];
+  readonly completed?: readonly { readonly id: string; readonly errors?: readonly unknown[] }[];
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof (value as AsyncIterable<unknown> | null)?.[Symbol.asyncIterator] === "function";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Copies the containers along `path`; a `null` on the way (a field that
+// failed) leaves the data unchanged.
+const updateAt = (
+  value: unknown,
+  path: readonly PathSegment[],
+  index: number,
+  update: (target: unknown) => unknown,
+): unknown => {
+  if (index === path.length) return update(value);
+  if (value === null || value === undefined) return value;
+  const segment = path[index]!;
+  if (Array.isArray(value)) {
+    const copy = [...value];
+    copy[segment as number] = updateAt(value[segment as number], path, index + 1, update);
+    return copy;
+  }
+  const object = value as Record<string, unknown>;
+  return { ...object, [segment]: updateAt(object[segment], path, index + 1, update) };
+};
+
+const deepMerge = (target: unknown, source: unknown): unknown => {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return source.map((item, index) => deepMerge(target[index], item));
+  }
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const out: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      out[key] = deepMerge(target[key], value);
+    }
+    return out;
+  }
+  return source;
+};
+
+const appendItems = (
+  list: unknown,
+  items: readonly unknown[],
+  start: number | undefined,
+): unknown => {
+  if (!Array.isArray(list)) return list;
+  const copy = [...list];
+  copy.splice(start ?? copy.length, items.length, ...items);
+  return copy;
+};
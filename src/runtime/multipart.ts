@@ -0,0 +1,71 @@
+// ─── GraphQL multipart request ────────────────────────────────────────
+// https://github.com/jaydenseric/graphql-multipart-request-spec
+
+export interface ExtractedFiles<T> {
+  /** `value` with every file replaced by `null`. */
+  readonly clone: T;
+  /** Each file with the object paths it was found at, e.g. `variables.input.files.0`. */
+  readonly files: ReadonlyMap<Blob, readonly string[]>;
+}
+
+/**
+ * Replaces `File`/`Blob` values nested in plain objects and arrays with `null`
+ * and collects their paths, as needed to build a multipart request.
+ *
+ * Values that are not plain objects or arrays (e.g. `Date`) are kept as-is.
+ */
+export const extractFiles = <T>(value: T, path = ""): ExtractedFiles<T> => {
+  const files = new Map<Blob, string[]>();
+  const visit = (current: unknown, currentPath: string): unknown => {
+    if (isFile(current)) {
+      const paths = files.get(current);
+      if (paths !== undefined) paths.push(currentPath);
+      else files.set(current, [currentPath]);
+      return null;
+    }
+    const prefix = currentPath === "" ? "" : `${currentPath}.`;
+    if (Array.isArray(current)) {
+      return current.map((item, index) => visit(item, `${prefix}${index}`));
+    }
+    if (isPlainObject(current)) {
+      const clone: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(current)) {
+        clone[key] = visit(item, `${prefix}${key}`);
+      }
+      return clone;
+    }
+    return current;
+  };
+  const clone = visit(value, path) as T;
+  return { clone, files };
+};
+
+/**
+ * Builds the multipart body: an `operations` JSON part, a `map` part from
+ * part name to paths inside `operations`, and one part per file.
+ */
+export const createMultipartBody = (
+  operations: unknown,
+  files: ReadonlyMap<Blob, readonly string[]>,
+): FormData => {
+  const form = new FormData();
+  const map: Record<string, readonly string[]> = {};
+  let index = 0;
+  for (const paths of files.values()) map[index++] = paths;
+  form.append("operations", JSON.stringify(operations));
+  form.append("map", JSON.stringify(map));
+  index = 0;
+  for (const file of files.keys()) form.append(String(index++), file);
+  return form;
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const isFile = (value: unknown): value is Blob =>
+  typeof Blob !== "undefined" && value instanceof Blob;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
@@ -0,0 +1,145 @@
+import type { GraphQLExecutorMiddleware, GraphQLOperation } from "./executor";
+import type { SelectionRuntime } from "./types";
+
+// ─── Automatic persisted queries ──────────────────────────────────────
+
+export interface PersistedQueryOptions {
+  /**
+   * Hashes a document to a lowercase hex digest.
+   * Defaults to SHA-256 through Web Crypto (`crypto.subtle`).
+   */
+  readonly hash?: (query: string) => string | Promise<string>;
+}
+
+/**
+ * Executor middleware implementing Apollo-style automatic persisted queries.
+ *
+ * The first attempt sends only `extensions.persistedQuery` with the document
+ * hash (`operation.includeQuery === false`). When the server answers
+ * `PersistedQueryNotFound` the operation is retried with the full document so
+ * the server can register it. After `PersistedQueryNotSupported` this
+ * middleware sends full documents only.
+ *
+ * Hashes are computed once per selection and document text.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(composeExecutor(persistedQueryExecutor(), httpExecutor));
+ * ```
+ */
+export const persistedQueryExecutor = (
+  options: PersistedQueryOptions = {},
+): GraphQLExecutorMiddleware => {
+  const hashOf = createDocumentHasher(options.hash ?? sha256);
+  let supported = true;
+
+  return async (operation, next) => {
+    if (!supported) return next(operation);
+    const extensions = {
+      ...operation.extensions,
+      persistedQuery: { version: 1, sha256Hash: await hashOf(operation) },
+    };
+    const response = await next({ ...operation, extensions, includeQuery: false });
+    switch (persistedQueryErrorOf(response)) {
+      case "PersistedQueryNotFound":
+        return next({ ...operation, extensions, includeQuery: true });
+      case "PersistedQueryNotSupported":
+        supported = false;
+        return next(operation);
+      default:
+        return response;
+    }
+  };
+};
+
+// ─── Persisted documents ──────────────────────────────────────────────
+
+/**
+ * Executor middleware for servers that only accept documents registered ahead
+ * of time, for example from the `persisted-operations.json` manifest emitted
+ * by the Vite plugin. Operations are sent as `documentId` (the SHA-256 hash
+ * of the document, matching the manifest keys) without the document text.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(composeExecutor(persistedDocumentExecutor(), httpExecutor));
+ * ```
+ */
+export const persistedDocumentExecutor = (
+  options: PersistedQueryOptions = {},
+): GraphQLExecutorMiddleware => {
+  const hashOf = createDocumentHasher(options.hash ?? sha256);
+  return async (operation, next) =>
+    next({
+      ...operation,
+      documentId: await hashOf(operation),
+      includeQuery: false,
+    });
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+// Hashes are cached per selection and document text.
+const createDocumentHasher = (
+  hash: (query: string) => string | Promise<string>,
+): ((operation: GraphQLOperation) => Promise<string>) => {
+  const hashes = new WeakMap<SelectionRuntime, Map<string, Promise<string>>>();
+  return (operation) => {
+    let byRequest = hashes.get(operation.runtime);
+    if (byRequest === undefined) {
+      byRequest = new Map();
+      hashes.set(operation.runtime, byRequest);
+    }
+    let digest = byRequest.get(operation.request);
+    if (digest === undefined) {
+      const cache = byRequest;
+      digest = Promise.resolve()
+        .then(() => hash(operation.request))
+        .catch((error: unknown) => {
+          // Failures aren't cached, the next call hashes again.
+          cache.delete(operation.request);
+          throw error;
+        });
+      cache.set(operation.request, digest);
+    }
+    return digest;
+  };
+};
+
+const persistedQueryErrorOf = (
+  response: unknown,
+): "PersistedQueryNotFound" | "PersistedQueryNotSupported" | undefined => {
+  const errors = (response as { errors?: unknown } | null | undefined)?.errors;
+  if (!Array.isArray(errors)) return undefined;
+  for (const error of errors) {
+    const message = (error as { message?: unknown } | null)?.message;
+    const code = (error as { extensions?: { code?: unknown } } | null)
+      ?.extensions?.code;
+    if (
+      message === "PersistedQueryNotFound" ||
+      code === "PERSISTED_QUERY_NOT_FOUND"
+    ) {
+      return "PersistedQueryNotFound";
+    }
+    if (
+      message === "PersistedQueryNotSupported" ||
+      code === "PERSISTED_QUERY_NOT_SUPPORTED"
+    ) {
+      return "PersistedQueryNotSupported";
+    }
+  }
+  return undefined;
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle === undefined) {
+    throw new Error(
+      "SHA-256 requires Web Crypto ('crypto.subtle'); pass a 'hash' option",
+    );
+  }
+  const digest = await subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
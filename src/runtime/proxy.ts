@@ -49,6 +49,8 @@ const BUILT_DIRECTIVES = new Set([
   "$skip",
   "$on",
   "$use",
+  "$defer",
+  "$stream",
 ]);
 
 const resolveValueOrThunk = <T>(value: ValueOrThunk<T>): T => {
@@ -376,9 +378,52 @@ const methodHandler = (
         return new Proxy(current, handler);
       }
 
+      // $defer(label?) – defer the fragment spread added by the preceding $on/$use
+      if (field === "$defer") {
+        const label = argArray[0] as string | undefined;
+        return new Proxy(
+          targetSelection.addSpreadDirective(
+            "defer",
+            label !== undefined ? { label } : undefined,
+          ),
+          handler,
+        );
+      }
+
+      // $stream(initialCount, label?) – stream the items of the last list field
+      if (field === "$stream") {
+        const lastField = targetSelection.lastField;
+        const existing = lastField
+          ? findLastFieldSelection(targetSelection, lastField)
+          : undefined;
+        if (!existing?.plural) {
+          throw new Error("$stream requires a preceding list field selection");
+        }
+        const label = argArray[1] as string | undefined;
+        const current = mergeLastFieldDirective(
+          targetSelection,
+          lastField,
+          "stream",
+          {
+            initialCount: argArray[0] as number,
+            ...(label !== undefined ? { label } : undefined),
+          },
+        );
+        return new Proxy(current, handler);
+      }
+
       // $directive(directiveName, args?) – field-level if there is a last field, otherwise selection-level
       if (field === "$directive") {
         const lastField = targetSelection.lastField;
+        if (lastField.startsWith("...")) {
+          return new Proxy(
+            targetSelection.addSpreadDirective(
+              argArray[0] as string,
+              argArray[1] as DirectiveArgs,
+            ),
+            handler,
+          );
+        }
         if (!lastField) {
           return new Proxy(
             targetSelection.addDirective(
@@ -402,6 +447,12 @@ const methodHandler = (
         const directiveName = field === "$include" ? "include" : "skip";
         const directiveArgs = { if: argArray[0] } as DirectiveArgs;
         const lastField = targetSelection.lastField;
+        if (lastField.startsWith("...")) {
+          return new Proxy(
+            targetSelection.addSpreadDirective(directiveName, directiveArgs),
+            handler,
+          );
+        }
         if (!lastField) {
           return new Proxy(
             targetSelection.addDirective(directiveName, directiveArgs),
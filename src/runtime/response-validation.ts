@@ -0,0 +1,318 @@
+import type {
+  GraphQLExecutorMiddleware,
+  GraphQLOperation,
+  GraphQLSubscriberMiddleware,
+} from "./executor";
+import { __marker } from "./parameter";
+import type { ParameterRef } from "./parameter";
+import { resolveRegisteredSchemaType } from "./schema";
+import type { SchemaType } from "./schema";
+import { runtimeOf } from "./types";
+import type { FieldSelection, Selection, SelectionRuntime } from "./types";
+
+// ─── Response shape validation ────────────────────────────────────────
+
+export type ResponsePath = readonly (string | number)[];
+
+/** One place where a response disagrees with the selection that requested it. */
+export interface ResponseShapeMismatch {
+  /** Response keys (aliases included) and list indexes leading to the value. */
+  readonly path: ResponsePath;
+  readonly message: string;
+}
+
+/**
+ * Thrown by {@link validateResponseExecutor} / {@link validateResponseSubscriber}
+ * in `"throw"` mode; the message lists every mismatch of the response.
+ */
+export class ResponseShapeError extends Error {
+  readonly mismatches: readonly ResponseShapeMismatch[];
+  readonly operationName?: string;
+
+  constructor(mismatches: readonly ResponseShapeMismatch[], operationName?: string) {
+    const subject = operationName !== undefined ? `'${operationName}'` : "an anonymous operation";
+    super(
+      `Response of ${subject} does not match its selection:\n` +
+        mismatches.map((mismatch) => `  ${formatMismatch(mismatch)}`).join("\n"),
+    );
+    this.name = "ResponseShapeError";
+    this.mismatches = mismatches;
+    this.operationName = operationName;
+  }
+}
+
+/**
+ * Checks `data`, a response to `selection`, against the selection: every
+ * selected response key (aliases included) must be present, lists and objects
+ * must have the selected shape, non-null fields must not be `null`, and
+ * `__typename` must name the selected type or one of its subtypes.
+ *
+ * Inline fragments and fragment spreads are checked only on objects whose
+ * `__typename` satisfies their type condition. Fields excluded by
+ * `@include`/`@skip` (resolved from `variables`) and fields of deferred
+ * fragments may be absent. Returns an empty array for a matching response.
+ *
+ * @example
+ * ```ts
+ * for (const { path, message } of validateResponseShape(query, data, variables)) {
+ *   console.warn(path.join("."), message);
+ * }
+ * ```
+ */
+export const validateResponseShape = (
+  selection: Selection<string, object, object>,
+  data: unknown,
+  variables: Record<string, unknown> = {},
+): ResponseShapeMismatch[] => {
+  const mismatches: ResponseShapeMismatch[] = [];
+  validateObject(runtimeOf(selection), data, [], false, variables, mismatches);
+  return mismatches;
+};
+
+export interface ResponseValidationOptions {
+  /**
+   * `"warn"` (the default) reports mismatches with `console.warn` and passes
+   * the response on; `"throw"` rejects with a {@link ResponseShapeError}.
+   */
+  readonly onMismatch?: "warn" | "throw";
+}
+
+/**
+ * Executor middleware validating each response against the selection of its
+ * operation with {@link validateResponseShape}. Meant for development builds;
+ * responses without `data` and incremental (`@defer`/`@stream`) streams are
+ * passed on unchecked.
+ *
+ * @example
+ * ```ts
+ * setGraphQLExecutor(
+ *   import.meta.env.DEV
+ *     ? composeExecutor(validateResponseExecutor({ onMismatch: "throw" }), httpExecutor)
+ *     : httpExecutor,
+ * );
+ * ```
+ */
+export const validateResponseExecutor = (
+  options: ResponseValidationOptions = {},
+): GraphQLExecutorMiddleware => {
+  return async (operation, next) => {
+    const response = await next(operation);
+    if (!isAsyncIterable(response)) {
+      reportMismatches(operation, response, options);
+    }
+    return response;
+  };
+};
+
+/**
+ * Subscriber middleware validating every subscription event like
+ * {@link validateResponseExecutor}.
+ *
+ * @example
+ * ```ts
+ * setGraphQLSubscriber(composeSubscriber(validateResponseSubscriber(), wsSubscriber));
+ * ```
+ */
+export const validateResponseSubscriber = (
+  options: ResponseValidationOptions = {},
+): GraphQLSubscriberMiddleware => {
+  return async function* (operation, next) {
+    for await (const response of next(operation)) {
+      reportMismatches(operation, response, options);
+      yield response;
+    }
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const formatMismatch = ({ path, message }: ResponseShapeMismatch): string =>
+  `${path.length !== 0 ? path.join(".") : "<root>"}: ${message}`;
+
+const reportMismatches = (
+  operation: GraphQLOperation,
+  response: unknown,
+  options: ResponseValidationOptions,
+) => {
+  const data = (response as { data?: unknown } | null | undefined)?.data;
+  if (data == null) return;
+  const mismatches: ResponseShapeMismatch[] = [];
+  validateObject(operation.runtime, data, [], false, operation.variables, mismatches);
+  if (mismatches.length === 0) return;
+  const error = new ResponseShapeError(
+    mismatches,
+    operation.operationName ?? operation.runtime.operationName,
+  );
+  if (options.onMismatch === "throw") throw error;
+  console.warn(error.message);
+};
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof (value as AsyncIterable<unknown> | null)?.[Symbol.asyncIterator] === "function";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "object" ? "an object" : typeof value;
+};
+
+// `optional` is set inside fragments that may legitimately be absent: deferred
+// ones, and those whose type condition can't be decided because the object
+// has no known `__typename`.
+const validateObject = (
+  runtime: SelectionRuntime,
+  value: unknown,
+  path: ResponsePath,
+  optional: boolean,
+  variables: Record<string, unknown>,
+  mismatches: ResponseShapeMismatch[],
+) => {
+  if (!isObject(value)) {
+    mismatches.push({ path, message: `expected an object, received ${describe(value)}` });
+    return;
+  }
+  const typename = typeof value.__typename === "string" ? value.__typename : undefined;
+  // Type conditions can only be decided for a known `__typename`.
+  const concreteType = typename !== undefined ? resolveRegisteredSchemaType(typename) : undefined;
+  for (const [responseKey, field] of runtime.fieldMap) {
+    if (field.name.startsWith("...")) {
+      if (!isIncluded(field, variables)) continue;
+      const conditional = optional || field.fieldOptionsValue?.directives.has("defer") === true;
+      for (const child of field.childSelections ?? []) {
+        const childRuntime = runtimeOf(child);
+        const condition = childRuntime.schemaType.name;
+        if (concreteType !== undefined && !isSubtypeOf(concreteType, condition)) continue;
+        validateObject(
+          childRuntime,
+          value,
+          path,
+          conditional || (concreteType === undefined && condition !== runtime.schemaType.name),
+          variables,
+          mismatches,
+        );
+      }
+      continue;
+    }
+    const fieldPath = [...path, responseKey];
+    if (!(responseKey in value)) {
+      if (!optional && isIncluded(field, variables)) {
+        mismatches.push({ path: fieldPath, message: `missing field '${field.name}'` });
+      }
+      continue;
+    }
+    const fieldValue = value[responseKey];
+    if (field.name === "__typename") {
+      validateTypename(runtime.schemaType, fieldValue, fieldPath, mismatches);
+      continue;
+    }
+    const schemaField = runtime.schemaType.fields.get(field.name);
+    if (fieldValue === null) {
+      if (schemaField !== undefined && !schemaField.isUndefinable) {
+        mismatches.push({
+          path: fieldPath,
+          message: `received null for non-null field '${field.name}'`,
+        });
+      }
+      continue;
+    }
+    validateValue(
+      field,
+      schemaField?.scalarTypeName !== undefined,
+      fieldValue,
+      fieldPath,
+      variables,
+      mismatches,
+    );
+  }
+};
+
+const validateValue = (
+  field: FieldSelection,
+  customScalar: boolean,
+  value: unknown,
+  path: ResponsePath,
+  variables: Record<string, unknown>,
+  mismatches: ResponseShapeMismatch[],
+) => {
+  const children = field.childSelections;
+  if (children === undefined || children.length === 0) {
+    // Custom scalars may be serialized as anything, built-in scalars and
+    // enums as primitives or lists of them.
+    if (!customScalar && !isLeafValue(value)) {
+      mismatches.push({ path, message: `expected a scalar, received ${describe(value)}` });
+    }
+    return;
+  }
+  if (field.plural !== Array.isArray(value)) {
+    mismatches.push({
+      path,
+      message: `expected ${field.plural ? "a list" : "an object"}, received ${describe(value)}`,
+    });
+    return;
+  }
+  const validateItem = (item: unknown, itemPath: ResponsePath) => {
+    for (const child of children) {
+      validateObject(runtimeOf(child), item, itemPath, false, variables, mismatches);
+    }
+  };
+  if (!Array.isArray(value)) {
+    validateItem(value, path);
+    return;
+  }
+  const visit = (items: readonly unknown[], itemsPath: ResponsePath) => {
+    items.forEach((item, index) => {
+      if (item === null) return;
+      // Nested lists, e.g. `[[Post]]`.
+      if (Array.isArray(item)) visit(item, [...itemsPath, index]);
+      else validateItem(item, [...itemsPath, index]);
+    });
+  };
+  visit(value, path);
+};
+
+const isLeafValue = (value: unknown): boolean =>
+  Array.isArray(value)
+    ? value.every(isLeafValue)
+    : value === null || (typeof value !== "object" && typeof value !== "function");
+
+const validateTypename = (
+  schemaType: SchemaType,
+  value: unknown,
+  path: ResponsePath,
+  mismatches: ResponseShapeMismatch[],
+) => {
+  if (typeof value !== "string") {
+    mismatches.push({ path, message: `expected a type name, received ${describe(value)}` });
+    return;
+  }
+  const concreteType = resolveRegisteredSchemaType(value);
+  if (concreteType === undefined) {
+    mismatches.push({ path, message: `unknown __typename '${value}'` });
+  } else if (!isSubtypeOf(concreteType, schemaType.name)) {
+    mismatches.push({
+      path,
+      message: `unexpected __typename '${value}', expected ${schemaType.name} or one of its subtypes`,
+    });
+  }
+};
+
+const isSubtypeOf = (schemaType: SchemaType, condition: string): boolean =>
+  schemaType.name === condition ||
+  schemaType.interfaces.some((superType) => isSubtypeOf(superType, condition));
+
+const isIncluded = (field: FieldSelection, variables: Record<string, unknown>): boolean => {
+  const directives = field.fieldOptionsValue?.directives;
+  if (directives === undefined) return true;
+  const include = directives.get("include");
+  if (include !== undefined && !resolveCondition(include.if, variables)) return false;
+  const skip = directives.get("skip");
+  return skip === undefined || !resolveCondition(skip.if, variables);
+};
+
+const resolveCondition = (value: unknown, variables: Record<string, unknown>): boolean =>
+  (value as Record<symbol, unknown> | null | undefined)?.[__marker]
+    ? Boolean(variables[(value as ParameterRef<string>).name])
+    : Boolean(value);
@@ -0,0 +1,8 @@
+// ─── Reconnect backoff ────────────────────────────────────────────────
+
+/**
+ * Exponential backoff from 1s up to 30s with jitter, shared by the
+ * streaming transports. `attempt` is 0-based.
+ */
+export const defaultRetryDelay = (attempt: number): number =>
+  Math.min(1000 * 2 ** attempt, 30_000) * (0.5 + Math.random() / 2);
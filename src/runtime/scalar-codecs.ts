@@ -0,0 +1,202 @@
+import type { EnumInputMetadata } from "./enum-metadata";
+import { runtimeOf } from "./types";
+import type { Selection, SelectionRuntime } from "./types";
+
+// ─── Custom scalar codecs ─────────────────────────────────────────────
+
+/**
+ * Converts one custom scalar between its wire value and its runtime value,
+ * e.g. an ISO string and a `Date`.
+ */
+export interface ScalarCodec<TValue = unknown, TWire = unknown> {
+  /** Wire value in a response → runtime value. */
+  parse(value: TWire): TValue;
+  /** Runtime value in variables or literal arguments → wire value. */
+  serialize(value: TValue): TWire;
+}
+
+const SCALAR_CODEC_REGISTRY = new Map<string, ScalarCodec>();
+
+/**
+ * Registers codecs by GraphQL scalar name. The generated `scalar-codecs.ts`
+ * calls this for the `scalarCodecs` codegen option; a later registration of
+ * the same scalar replaces the earlier one.
+ *
+ * @example
+ * ```ts
+ * registerScalarCodecs({
+ *   DateTime: {
+ *     parse: (value: string) => new Date(value),
+ *     serialize: (date: Date) => date.toISOString(),
+ *   },
+ * });
+ * ```
+ */
+export const registerScalarCodecs = (codecs: {
+  readonly [scalarName: string]: ScalarCodec;
+}) => {
+  for (const scalarName in codecs) {
+    SCALAR_CODEC_REGISTRY.set(scalarName, codecs[scalarName]!);
+  }
+};
+
+/**
+ * Resolves the codec for a GraphQL type in SDL form (`DateTime!`); list types
+ * have no codec of their own.
+ */
+export const resolveScalarCodec = (
+  graphqlTypeName: string | undefined,
+): ScalarCodec | undefined => {
+  if (graphqlTypeName === undefined || SCALAR_CODEC_REGISTRY.size === 0) {
+    return undefined;
+  }
+  const typeName = stripNonNull(graphqlTypeName);
+  return typeName.startsWith("[")
+    ? undefined
+    : SCALAR_CODEC_REGISTRY.get(typeName);
+};
+
+/**
+ * Parses custom scalar fields of `data`, a response to `selection`, with the
+ * registered codecs. Aliases and fragments are followed; objects holding
+ * decoded values are copied, the rest is shared and `data` is left untouched.
+ */
+export const decodeScalars = <T>(
+  selection: Selection<string, object, object>,
+  data: T,
+): T => {
+  if (SCALAR_CODEC_REGISTRY.size === 0 || !isObject(data)) return data;
+  return convertObject(runtimeOf(selection), data, data, "parse") as T;
+};
+
+/**
+ * Serializes custom scalar fields of `data`, shaped like a result of
+ * `selection`, back to wire values: the inverse of {@link decodeScalars}, for
+ * results built by hand such as optimistic responses.
+ */
+export const encodeScalars = <T>(
+  selection: Selection<string, object, object>,
+  data: T,
+): T => {
+  if (SCALAR_CODEC_REGISTRY.size === 0 || !isObject(data)) return data;
+  return convertObject(runtimeOf(selection), data, data, "serialize") as T;
+};
+
+/**
+ * Serializes custom scalar values in `variables` with the registered codecs,
+ * following the declared variable types into input objects and lists.
+ */
+export const encodeScalarVariables = <T extends Record<string, unknown>>(
+  selection: Selection<string, object, object>,
+  variables: T,
+): T => {
+  if (SCALAR_CODEC_REGISTRY.size === 0) return variables;
+  const runtime = runtimeOf(selection);
+  const metadata = (
+    runtime as unknown as { _enumInputMetadata?: EnumInputMetadata }
+  )._enumInputMetadata;
+  const out: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    out[name] = encodeValue(value, runtime.variableTypeMap.get(name), metadata);
+  }
+  return out as T;
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const stripNonNull = (typeName: string): string =>
+  typeName.endsWith("!") ? typeName.slice(0, -1) : typeName;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Values are always read from `source` and written copy-on-write into `out`,
+// so a field selected by several fragments is converted once and objects
+// without custom scalars are shared with `source`.
+const convertObject = (
+  runtime: SelectionRuntime,
+  source: Record<string, unknown>,
+  existing: Record<string, unknown>,
+  direction: keyof ScalarCodec,
+): Record<string, unknown> => {
+  let out = existing;
+  for (const [responseKey, field] of runtime.fieldMap) {
+    if (field.name.startsWith("...")) {
+      for (const child of field.childSelections ?? []) {
+        out = convertObject(runtimeOf(child), source, out, direction);
+      }
+      continue;
+    }
+    if (!(responseKey in source)) continue;
+    const scalarTypeName = runtime.schemaType.fields.get(field.name)?.scalarTypeName;
+    const converted = convertValue(
+      source[responseKey],
+      field.childSelections,
+      scalarTypeName !== undefined ? SCALAR_CODEC_REGISTRY.get(scalarTypeName) : undefined,
+      out[responseKey],
+      direction,
+    );
+    if (converted !== out[responseKey]) {
+      if (out === source) out = { ...source };
+      out[responseKey] = converted;
+    }
+  }
+  return out;
+};
+
+const convertValue = (
+  value: unknown,
+  children: readonly Selection<string, object, object>[] | undefined,
+  codec: ScalarCodec | undefined,
+  existing: unknown,
+  direction: keyof ScalarCodec,
+): unknown => {
+  if (value == null) return value;
+  if (Array.isArray(value)) {
+    const items = Array.isArray(existing) ? existing : value;
+    let out = items;
+    value.forEach((item, index) => {
+      const converted = convertValue(item, children, codec, items[index], direction);
+      if (converted !== items[index]) {
+        if (out === items) out = [...items];
+        out[index] = converted;
+      }
+    });
+    return out;
+  }
+  if (children !== undefined && children.length !== 0) {
+    if (!isObject(value)) return value;
+    let out = isObject(existing) ? existing : value;
+    for (const child of children) {
+      out = convertObject(runtimeOf(child), value, out, direction);
+    }
+    return out;
+  }
+  // `existing` differs from `value` once an earlier fragment converted it.
+  return codec === undefined || existing !== value ? existing : codec[direction](value);
+};
+
+const encodeValue = (
+  value: unknown,
+  graphqlTypeName: string | undefined,
+  metadata: EnumInputMetadata | undefined,
+): unknown => {
+  if (value == null || graphqlTypeName === undefined) return value;
+  const typeName = stripNonNull(graphqlTypeName);
+  if (typeName.startsWith("[")) {
+    const itemTypeName = typeName.slice(1, -1);
+    // A single value is accepted where a list is expected.
+    return Array.isArray(value)
+      ? value.map((item) => encodeValue(item, itemTypeName, metadata))
+      : encodeValue(value, itemTypeName, metadata);
+  }
+  const codec = SCALAR_CODEC_REGISTRY.get(typeName);
+  if (codec !== undefined) return codec.serialize(value);
+  const metaType = metadata?.get(typeName);
+  if (metaType?.type !== "INPUT" || !isObject(value)) return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    out[key] = encodeValue(item, metaType.fieldGraphQLTypeMap?.get(key), metadata);
+  }
+  return out;
+};
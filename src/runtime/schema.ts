@@ -64,6 +64,8 @@ export interface SchemaField {
   readonly isFunction: boolean;
   /** Whether this field may be omitted in generated runtime builders. */
   readonly isUndefinable: boolean;
+  /** Custom (non built-in) scalar type of a scalar field, decoded by scalar codecs. */
+  readonly scalarTypeName?: string;
 }
 
 const SCHEMA_TYPE_REGISTRY = new Map<string, SchemaType>();
@@ -118,6 +120,7 @@ type FieldDescriptor =
       readonly undefinable?: boolean;
       readonly argGraphQLTypeMap?: { readonly [key: string]: string };
       readonly targetTypeName?: string;
+      readonly scalarTypeName?: string;
     };
 
 // ─── Factory ────────────────────────────────────────────────────────
@@ -148,6 +151,7 @@ export const createSchemaType = <E extends string>(
           argMap,
           desc.targetTypeName,
           desc.undefinable,
+          desc.scalarTypeName,
         ),
       );
     }
@@ -182,6 +186,7 @@ const buildField = (
   argGraphQLTypeMap: ReadonlyMap<string, string>,
   targetTypeName?: string,
   undefinable?: boolean,
+  scalarTypeName?: string,
 ): SchemaField => {
   const isPlural = category === "LIST";
   const isAssociation = category === "REFERENCE" || isPlural;
@@ -198,6 +203,7 @@ const buildField = (
       isAssociation ||
       targetTypeName !== undefined,
     isUndefinable: undefinable ?? false,
+    scalarTypeName,
   };
 };
 
@@ -12,6 +12,8 @@ import type {
 import { StringValue } from "./types";
 import { ParameterRef, __marker } from "./parameter";
 import { TextBuilder } from "./text-builder";
+import { notifyOperationCollector } from "./document";
+import { resolveScalarCodec } from "./scalar-codecs";
 
 // ─── SelectionImpl ─────────────────────────────────────────────────────
 // Immutable linked-list node. Each field/directive operation returns a new
@@ -83,6 +85,10 @@ export class SelectionImpl<
     return this._schemaType;
   }
 
+  get enumInputMetadata(): EnumInputMetadata {
+    return this._enumInputMetadata;
+  }
+
   get operationName(): string | undefined {
     if (this._operationName !== undefined) {
       return this._operationName;
@@ -143,6 +149,29 @@ export class SelectionImpl<
     ) as unknown as F;
   }
 
+  /**
+   * Copy of this fragment spread node (created by `addEmbeddable`) with
+   * `directive` attached to the spread, e.g. `... Name @defer`.
+   */
+  addSpreadDirective<F extends SelectionImpl<string, object, object>>(
+    directive: string,
+    directiveArgs?: DirectiveArgs,
+  ): F {
+    if (!this._field.startsWith("...")) {
+      throw new Error(`@${directive} requires a preceding fragment spread`);
+    }
+    const directives = new Map(this._fieldOptionsValue?.directives ?? []);
+    directives.set(directive, directiveArgs);
+    return new SelectionImpl(
+      this._ctx,
+      false,
+      this._field,
+      undefined,
+      this._child,
+      { directives },
+    ) as unknown as F;
+  }
+
   addDirective<F extends SelectionImpl<string, object, object>>(
     directive: string,
     directiveArgs?: DirectiveArgs,
@@ -181,6 +210,48 @@ export class SelectionImpl<
     ) as unknown as F;
   }
 
+  /**
+   * Copy of this selection with every `ParameterRef` (field arguments, field
+   * and selection directives, nested selections) passed through `rename`.
+   * Unchanged nodes are shared, so unaffected fragments keep their identity.
+   */
+  mapParameterRefs(
+    rename: (ref: ParameterRef<string>) => ParameterRef<string>,
+    cache: Map<object, unknown> = new Map(),
+  ): SelectionImpl<E, T, TVariables> {
+    const cached = cache.get(this);
+    if (cached !== undefined) return cached as SelectionImpl<E, T, TVariables>;
+
+    const prev = this._prev && rawSelection(this._prev);
+    const mappedPrev = prev?.mapParameterRefs(rename, cache);
+    const child = this._child && rawSelection(this._child);
+    const mappedChild = child?.mapParameterRefs(rename, cache);
+    const args = mapParameterRefsIn(this._args, rename);
+    const directiveArgs = mapParameterRefsIn(this._directiveArgs, rename);
+    const fieldOptionsValue = mapFieldOptionsValue(this._fieldOptionsValue, rename);
+
+    const result =
+      mappedPrev === prev &&
+      mappedChild === child &&
+      args === this._args &&
+      directiveArgs === this._directiveArgs &&
+      fieldOptionsValue === this._fieldOptionsValue
+        ? this
+        : new SelectionImpl<E, T, TVariables>(
+            mappedPrev ?? this._ctx,
+            this._negative,
+            this._field,
+            args,
+            mappedChild,
+            fieldOptionsValue,
+            this._directive,
+            directiveArgs,
+            this._operationName,
+          );
+    cache.set(this, result);
+    return result;
+  }
+
   // ── Computed maps (lazy, cached) ──
 
   get fieldMap(): ReadonlyMap<string, FieldSelection> {
@@ -264,6 +335,16 @@ export class SelectionImpl<
       const key = n._fieldOptionsValue?.alias ?? n._field;
 
       if (n._field.startsWith("...")) {
+        // A spread with directives (`@defer`, `@include`, ...) keeps its own entry.
+        if (n._fieldOptionsValue?.directives.size) {
+          map.set(`${n._field}#${i}`, {
+            name: n._field,
+            fieldOptionsValue: n._fieldOptionsValue,
+            plural: false,
+            childSelections: [n._child!],
+          });
+          continue;
+        }
         let children = map.get(key)?.childSelections as
           | SelectionImpl<string, object, object>[]
           | undefined;
@@ -329,10 +410,74 @@ export class SelectionImpl<
 export const withOperationName = <S extends Selection<string, object, object>>(
   selection: S,
   operationName?: string,
-): S =>
-  (
+): S => {
+  const named = (
     selection as unknown as SelectionImpl<string, object, object>
   ).withOperationName(operationName) as unknown as S;
+  // Every generated `query$`/`mutation$`/`subscription$` call ends here.
+  notifyOperationCollector(named);
+  return named;
+};
+
+// ─── Parameter rewriting ──────────────────────────────────────────────
+
+// Chain and child nodes may be proxies; `runtimeOf` yields the plain node.
+const rawSelection = (
+  selection: SelectionImpl<string, object, object>,
+): SelectionImpl<string, object, object> =>
+  runtimeOf(selection) as SelectionImpl<string, object, object>;
+
+const mapParameterRefsIn = <V>(
+  value: V,
+  rename: (ref: ParameterRef<string>) => ParameterRef<string>,
+): V => {
+  if (typeof value !== "object" || value === null) return value;
+  if ((value as Record<symbol, unknown>)[__marker]) {
+    return rename(value as unknown as ParameterRef<string>) as unknown as V;
+  }
+  if (Array.isArray(value)) {
+    const mapped = value.map((item) => mapParameterRefsIn(item, rename));
+    return mapped.some((item, index) => item !== value[index])
+      ? (mapped as V)
+      : value;
+  }
+  if (value instanceof Set) {
+    const items = [...value];
+    const mapped = items.map((item) => mapParameterRefsIn(item, rename));
+    return mapped.some((item, index) => item !== items[index])
+      ? (new Set(mapped) as V)
+      : value;
+  }
+  if (value instanceof Map) {
+    let changed = false;
+    const mapped = new Map<unknown, unknown>();
+    for (const [key, item] of value) {
+      const next = mapParameterRefsIn(item, rename);
+      if (next !== item) changed = true;
+      mapped.set(key, next);
+    }
+    return changed ? (mapped as V) : value;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return value;
+  let changed = false;
+  const mapped: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const next = mapParameterRefsIn(item, rename);
+    if (next !== item) changed = true;
+    mapped[key] = next;
+  }
+  return changed ? (mapped as V) : value;
+};
+
+const mapFieldOptionsValue = (
+  value: FieldOptionsValue | undefined,
+  rename: (ref: ParameterRef<string>) => ParameterRef<string>,
+): FieldOptionsValue | undefined => {
+  if (value === undefined) return undefined;
+  const directives = mapParameterRefsIn(value.directives, rename);
+  return directives === value.directives ? value : { ...value, directives };
+};
 
 // ═══════════════════════════════════════════════════════════════════════
 // Serialization (extracted from old ResultContext)
@@ -415,12 +560,16 @@ class SerializeContext {
         const baseName = name.substring("...".length).trim();
         for (const c of children) {
           const runtimeName = this.resolveFragmentRuntimeName(baseName, c);
-          t(`... ${runtimeName}\n`);
+          t(`... ${runtimeName}`);
+          this.acceptDirectives(field.fieldOptionsValue?.directives);
+          t("\n");
         }
         continue;
       }
 
-      if (name !== "...") {
+      // An inline spread is only flattened while it has no directives.
+      const flatten = name === "..." && field.fieldOptionsValue === undefined;
+      if (!flatten) {
         const alias = field.fieldOptionsValue?.alias;
         if (alias && alias !== name) t(`${alias}: `);
         t(name);
@@ -431,7 +580,7 @@ class SerializeContext {
         this.acceptDirectives(field.fieldOptionsValue?.directives);
       }
       if (children?.length) {
-        if (name === "...") {
+        if (flatten) {
           // Inline spread: flatten children directly into current selection.
           for (const c of children) this.acceptSelection(c);
         } else {
@@ -578,6 +727,15 @@ class SerializeContext {
       t("null");
       return;
     }
+    const codec = resolveScalarCodec(graphqlTypeName);
+    if (
+      codec !== undefined &&
+      !value[__marker] &&
+      !(value instanceof StringValue)
+    ) {
+      this.acceptLiteral(codec.serialize(value), undefined, undefined);
+      return;
+    }
     if (typeof value === "number") {
       t(value.toString());
       return;
@@ -0,0 +1,433 @@
+import { createAsyncQueue } from "./async-queue";
+import type { AsyncQueue } from "./async-queue";
+import type { GraphQLOperation, GraphQLSubscriber } from "./executor";
+import { GraphQLHttpError, resolveHeaders } from "./http-executor";
+import type { HttpHeaders } from "./http-executor";
+import { defaultRetryDelay } from "./retry";
+
+// ─── graphql-sse subscriber ───────────────────────────────────────────
+
+export interface SseSubscriberOptions {
+  /** GraphQL over SSE endpoint. */
+  readonly url: string;
+  /**
+   * - false: every subscription opens its own event stream ("distinct
+   *   connections" mode, default).
+   * - true: subscriptions share one reserved event stream and are started
+   *   and stopped with separate requests ("single connection" mode).
+   */
+  readonly singleConnection?: boolean;
+  /**
+   * Extra request headers, or a function computing them per operation.
+   * `operation.context.headers` set by middleware are applied last.
+   */
+  readonly headers?:
+    | HttpHeaders
+    | ((operation: GraphQLOperation | undefined) => HttpHeaders | Promise<HttpHeaders>);
+  readonly credentials?: RequestInit["credentials"];
+  /** `fetch` implementation, defaults to the global one. */
+  readonly fetch?: typeof fetch;
+  /** Reconnect attempts after the event stream drops. Defaults to 5. */
+  readonly retryAttempts?: number;
+  /**
+   * Delay before reconnect attempt `attempt` (0-based), in milliseconds.
+   * Defaults to exponential backoff from 1s up to 30s with jitter.
+   */
+  readonly retryDelay?: (attempt: number) => number;
+}
+
+/**
+ * Creates a subscriber speaking the graphql-sse protocol.
+ *
+ * Dropped event streams are reopened with backoff, sending the last received
+ * event id as `Last-Event-ID` so the server can resume where it stopped.
+ * HTTP errors (e.g. 4xx) are not retried; a GraphQL error body is surfaced
+ * as a response so `subscribe` throws `GraphQLError`.
+ *
+ * @example
+ * ```ts
+ * setGraphQLSubscriber(
+ *   createSseSubscriber({ url: "/graphql/stream", singleConnection: true }),
+ * );
+ * ```
+ */
+export const createSseSubscriber = (
+  options: SseSubscriberOptions,
+): GraphQLSubscriber =>
+  options.singleConnection
+    ? singleConnectionSubscriber(options)
+    : distinctConnectionsSubscriber(options);
+
+// ─── Distinct connections mode ────────────────────────────────────────
+
+const distinctConnectionsSubscriber = (
+  options: SseSubscriberOptions,
+): GraphQLSubscriber => {
+  return async (request, variables, operation) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const controller = new AbortController();
+    const queue = createAsyncQueue<unknown>(() => controller.abort());
+    const signal = operation?.signal;
+    if (signal?.aborted) {
+      queue.end(signal.reason);
+      return queue;
+    }
+    const abort = () => {
+      controller.abort(signal!.reason);
+      queue.end(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    const release = () => signal?.removeEventListener("abort", abort);
+
+    const headers = await resolveHeaders(options.headers, operation);
+    const body = JSON.stringify(requestBodyOf(request, variables, operation));
+    consumeEventStream(options, controller.signal, {
+      open: (lastEventId) =>
+        fetchImpl(options.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            accept: EVENT_STREAM,
+            ...headers,
+            ...lastEventIdHeader(lastEventId),
+          },
+          body,
+          credentials: options.credentials,
+          signal: controller.signal,
+        }),
+      onEvent: (event) => {
+        if (event.event === "next") queue.push(JSON.parse(event.data));
+        return event.event === "complete";
+      },
+    }).then(
+      () => {
+        release();
+        queue.end();
+      },
+      (error) => {
+        release();
+        const response = graphqlResponseOf(error);
+        if (response !== undefined) queue.push(response);
+        queue.end(response === undefined ? error : undefined);
+      },
+    );
+    return queue;
+  };
+};
+
+// ─── Single connection mode ───────────────────────────────────────────
+
+const singleConnectionSubscriber = (
+  options: SseSubscriberOptions,
+): GraphQLSubscriber => {
+  const subscriptions = new Map<string, ActiveSubscription>();
+  let nextId = 0;
+  let connection: StreamConnection | undefined;
+
+  const connect = (): StreamConnection => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const controller = new AbortController();
+    const ready = (async () => {
+      const reservation = await fetchImpl(options.url, {
+        method: "PUT",
+        headers: await resolveHeaders(options.headers, undefined),
+        credentials: options.credentials,
+        signal: controller.signal,
+      });
+      if (!reservation.ok) throw await httpErrorOf(reservation);
+      const token = await reservation.text();
+      const headers = {
+        ...(await resolveHeaders(options.headers, undefined)),
+        [TOKEN_HEADER]: token,
+      };
+
+      await new Promise<void>((connected, failed) => {
+        consumeEventStream(options, controller.signal, {
+          open: (lastEventId) =>
+            fetchImpl(options.url, {
+              method: "GET",
+              headers: {
+                accept: EVENT_STREAM,
+                ...headers,
+                ...lastEventIdHeader(lastEventId),
+              },
+              credentials: options.credentials,
+              signal: controller.signal,
+            }),
+          onConnected: connected,
+          onEvent: (event) => {
+            const message = JSON.parse(event.data) as { id: string; payload?: unknown };
+            if (event.event === "next") subscriptions.get(message.id)?.queue.push(message.payload);
+            if (event.event === "complete") finish(message.id);
+            return false;
+          },
+        }).then(
+          () => failed(controller.signal.reason),
+          (error) => {
+            failed(error);
+            failAll(error);
+          },
+        );
+      });
+      return token;
+    })();
+    ready.catch(() => {
+      if (connection?.ready === ready) connection = undefined;
+    });
+    return { controller, ready };
+  };
+
+  const finish = (id: string, error?: unknown) => {
+    const subscription = subscriptions.get(id);
+    if (subscription === undefined) return;
+    subscriptions.delete(id);
+    subscription.release();
+    subscription.queue.end(error);
+    closeIfIdle();
+  };
+
+  const failAll = (error: unknown) => {
+    for (const subscription of subscriptions.values()) {
+      subscription.release();
+      subscription.queue.end(error);
+    }
+    subscriptions.clear();
+    closeIfIdle();
+  };
+
+  const closeIfIdle = () => {
+    if (subscriptions.size !== 0 || connection === undefined) return;
+    connection.controller.abort();
+    connection = undefined;
+  };
+
+  return (request, variables, operation) => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const id = String(++nextId);
+    const queue = createAsyncQueue<unknown>(() => unsubscribe());
+    const signal = operation?.signal;
+    if (signal?.aborted) {
+      queue.end(signal.reason);
+      return queue;
+    }
+    const abort = () => {
+      unsubscribe();
+      queue.end(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    const release = () => signal?.removeEventListener("abort", abort);
+    subscriptions.set(id, { queue, release });
+    const current = (connection ??= connect());
+    const unsubscribe = () => {
+      if (!subscriptions.delete(id)) return;
+      release();
+      current.ready
+        .then(async (token) =>
+          fetchImpl(appendOperationId(options.url, id), {
+            method: "DELETE",
+            headers: {
+              ...(await resolveHeaders(options.headers, operation)),
+              [TOKEN_HEADER]: token,
+            },
+            credentials: options.credentials,
+          }),
+        )
+        .catch(() => undefined);
+      closeIfIdle();
+    };
+
+    const body = requestBodyOf(request, variables, operation);
+    (async () => {
+      const token = await current.ready;
+      if (queue.ended) return;
+      const response = await fetchImpl(options.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json",
+          ...(await resolveHeaders(options.headers, operation)),
+          [TOKEN_HEADER]: token,
+        },
+        body: JSON.stringify({
+          ...body,
+          extensions: { ...body.extensions, operationId: id },
+        }),
+        credentials: options.credentials,
+      });
+      if (response.status !== 202) throw await httpErrorOf(response);
+    })().catch((error) => {
+      const response = graphqlResponseOf(error);
+      if (response !== undefined) queue.push(response);
+      finish(id, response === undefined ? error : undefined);
+    });
+    return queue;
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const EVENT_STREAM = "text/event-stream";
+
+const TOKEN_HEADER = "x-graphql-event-stream-token";
+
+interface StreamConnection {
+  readonly controller: AbortController;
+  /** Resolves with the reservation token once the event stream is open. */
+  readonly ready: Promise<string>;
+}
+
+interface ActiveSubscription {
+  readonly queue: AsyncQueue<unknown>;
+  /** Detaches the subscription from its abort signal. */
+  readonly release: () => void;
+}
+
+interface RequestBody {
+  readonly query?: string;
+  readonly variables: Record<string, unknown>;
+  readonly operationName?: string;
+  readonly extensions?: Readonly<Record<string, unknown>>;
+}
+
+interface SseEvent {
+  readonly event: string;
+  readonly data: string;
+  readonly id?: string;
+}
+
+const requestBodyOf = (
+  request: string,
+  variables: Record<string, unknown>,
+  operation: GraphQLOperation | undefined,
+): RequestBody => ({
+  query: operation?.includeQuery === false ? undefined : request,
+  variables,
+  operationName: operation?.operationName || undefined,
+  extensions: operation?.extensions,
+});
+
+const appendOperationId = (url: string, id: string): string =>
+  `${url}${url.includes("?") ? "&" : "?"}operationId=${encodeURIComponent(id)}`;
+
+const lastEventIdHeader = (lastEventId: string | undefined): HttpHeaders =>
+  lastEventId !== undefined ? { "last-event-id": lastEventId } : {};
+
+const httpErrorOf = async (response: Response): Promise<GraphQLHttpError> =>
+  new GraphQLHttpError(
+    response.status,
+    response.statusText,
+    await response.text().catch(() => undefined),
+  );
+
+/** The GraphQL response carried by a rejected request, e.g. validation errors. */
+const graphqlResponseOf = (error: unknown): { errors: unknown } | undefined => {
+  if (!(error instanceof GraphQLHttpError) || error.body === undefined) return undefined;
+  try {
+    const body = JSON.parse(error.body);
+    return typeof body === "object" && body !== null && Array.isArray(body.errors)
+      ? body
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Opens an event stream and feeds its events to `onEvent` until it returns
+ * true, reopening the stream with `Last-Event-ID` when it drops. Resolves when
+ * done or aborted; rejects with HTTP errors and once retries are exhausted.
+ */
+const consumeEventStream = async (
+  options: SseSubscriberOptions,
+  signal: AbortSignal,
+  handlers: {
+    readonly open: (lastEventId: string | undefined) => Promise<Response>;
+    readonly onEvent: (event: SseEvent) => boolean;
+    readonly onConnected?: () => void;
+  },
+): Promise<void> => {
+  const retryAttempts = options.retryAttempts ?? 5;
+  const retryDelay = options.retryDelay ?? defaultRetryDelay;
+  let lastEventId: string | undefined;
+  let retries = 0;
+  for (;;) {
+    let failure: unknown = new Error("Event stream closed before completing");
+    try {
+      const response = await handlers.open(lastEventId);
+      const contentType = response.headers.get("content-type") ?? "";
+      if (!response.ok || !contentType.includes(EVENT_STREAM) || response.body === null) {
+        throw await httpErrorOf(response);
+      }
+      handlers.onConnected?.();
+      for await (const event of readEventStream(response.body)) {
+        retries = 0;
+        if (event.id !== undefined) lastEventId = event.id;
+        if (handlers.onEvent(event)) return;
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      if (error instanceof GraphQLHttpError) throw error;
+      failure = error;
+    }
+    if (signal.aborted) return;
+    if (retries >= retryAttempts) throw failure;
+    await sleep(retryDelay(retries++), signal);
+  }
+};
+
+/** Parses a `text/event-stream` body into events. */
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+  let id: string | undefined;
+  let dispatchable = false;
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        if (line === "") {
+          if (dispatchable) yield { event, data: data.join("\n"), id };
+          event = "message";
+          data = [];
+          id = undefined;
+          dispatchable = false;
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = fieldValue;
+        else if (field === "data") data.push(fieldValue);
+        else if (field === "id") id = fieldValue;
+        else continue;
+        dispatchable = true;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const abort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", abort, { once: true });
+  });
@@ -0,0 +1,22 @@
+// JSON serialization with sorted object keys, so equal values always map to
+// the same string regardless of property insertion order.
+export const stableStringify = (value: unknown): string => {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    return stableStringify((value as { toJSON(): unknown }).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(
+      (key) =>
+        `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+    );
+  return `{${entries.join(",")}}`;
+};
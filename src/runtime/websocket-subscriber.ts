@@ -0,0 +1,298 @@
+import { createAsyncQueue } from "./async-queue";
+import type { AsyncQueue } from "./async-queue";
+import type { GraphQLSubscriber } from "./executor";
+import { defaultRetryDelay } from "./retry";
+
+// ─── graphql-transport-ws subscriber ──────────────────────────────────
+
+/**
+ * The part of the WHATWG `WebSocket` API the subscriber relies on.
+ * Browser/Node `WebSocket` and the `ws` package both satisfy it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: "open" | "error", listener: (event: unknown) => void): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+  addEventListener(
+    type: "close",
+    listener: (event: { code: number; reason: string }) => void,
+  ): void;
+}
+
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+) => WebSocketLike;
+
+export type ConnectionParams = Readonly<Record<string, unknown>>;
+
+export interface WebSocketSubscriberOptions {
+  /** `ws:` / `wss:` endpoint. */
+  readonly url: string;
+  /** Payload of `connection_init`, evaluated on every (re)connect. */
+  readonly connectionParams?:
+    | ConnectionParams
+    | (() => ConnectionParams | Promise<ConnectionParams>);
+  /** `WebSocket` implementation, defaults to the global one. */
+  readonly WebSocketImpl?: WebSocketConstructor;
+  /** Reconnect attempts after an unexpected close. Defaults to 5. */
+  readonly retryAttempts?: number;
+  /**
+   * Delay before reconnect attempt `attempt` (0-based), in milliseconds.
+   * Defaults to exponential backoff from 1s up to 30s with jitter.
+   */
+  readonly retryDelay?: (attempt: number) => number;
+  /** Interval of client `ping` messages in milliseconds; 0 disables. Defaults to 0. */
+  readonly keepAlive?: number;
+  /**
+   * Milliseconds to wait for `connection_ack` once the socket opens; when it
+   * doesn't arrive in time, pending subscriptions fail and the socket closes.
+   * 0 disables. Defaults to 0.
+   */
+  readonly connectionAckTimeout?: number;
+}
+
+/**
+ * Creates a subscriber speaking the `graphql-transport-ws` protocol.
+ *
+ * All subscriptions share one socket, opened lazily on the first subscription
+ * and closed when the last one ends. Unexpected closes are retried with
+ * backoff and active subscriptions are re-sent once the server acknowledges
+ * the new connection.
+ *
+ * @example
+ * ```ts
+ * setGraphQLSubscriber(
+ *   createWebSocketSubscriber({
+ *     url: "wss://api.example.com/graphql",
+ *     connectionParams: async () => ({ authorization: await getToken() }),
+ *   }),
+ * );
+ * ```
+ */
+export const createWebSocketSubscriber = (
+  options: WebSocketSubscriberOptions,
+): GraphQLSubscriber => {
+  const retryAttempts = options.retryAttempts ?? 5;
+  const retryDelay = options.retryDelay ?? defaultRetryDelay;
+  const subscriptions = new Map<string, ActiveSubscription>();
+  let nextId = 0;
+  let socket: WebSocketLike | undefined;
+  let acknowledged = false;
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let keepAliveTimer: ReturnType<typeof setInterval> | undefined;
+  let ackTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const send = (message: ClientMessage) => {
+    if (socket !== undefined && acknowledged && socket.readyState === OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const open = () => {
+    retryTimer = undefined;
+    const WebSocketImpl =
+      options.WebSocketImpl ??
+      (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (WebSocketImpl === undefined) {
+      failAll(
+        new Error(
+          "WebSocket is not available in this environment; pass 'WebSocketImpl' to 'createWebSocketSubscriber'",
+        ),
+      );
+      return;
+    }
+    const current = new WebSocketImpl(options.url, PROTOCOL);
+    socket = current;
+    acknowledged = false;
+
+    current.addEventListener("open", async () => {
+      if (options.connectionAckTimeout) {
+        ackTimer = setTimeout(() => {
+          if (socket !== current) return;
+          failAll(
+            new Error(
+              `WebSocket connection_ack not received within ${options.connectionAckTimeout}ms`,
+            ),
+          );
+        }, options.connectionAckTimeout);
+      }
+      try {
+        const payload =
+          typeof options.connectionParams === "function"
+            ? await options.connectionParams()
+            : options.connectionParams;
+        if (socket === current && current.readyState === OPEN) {
+          current.send(JSON.stringify({ type: "connection_init", payload }));
+        }
+      } catch (error) {
+        failAll(error);
+      }
+    });
+    current.addEventListener("message", (event: { data: unknown }) => {
+      if (socket === current) receive(current, event.data);
+    });
+    current.addEventListener("close", (event: { code: number; reason: string }) => {
+      if (socket === current) closed(event.code, event.reason);
+    });
+  };
+
+  const receive = (current: WebSocketLike, data: unknown) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      current.close(4400, "Invalid message received");
+      return;
+    }
+    switch (message.type) {
+      case "connection_ack":
+        acknowledged = true;
+        retries = 0;
+        clearTimeout(ackTimer);
+        for (const [id, subscription] of subscriptions) {
+          send({ id, type: "subscribe", payload: subscription.payload });
+        }
+        if (options.keepAlive) {
+          keepAliveTimer = setInterval(() => send({ type: "ping" }), options.keepAlive);
+        }
+        break;
+      case "ping":
+        if (current.readyState === OPEN) {
+          current.send(JSON.stringify({ type: "pong" }));
+        }
+        break;
+      case "next":
+        subscriptions.get(message.id)?.queue.push(message.payload);
+        break;
+      case "error":
+        // Surface operation errors as a GraphQL response so `subscribe` throws `GraphQLError`.
+        subscriptions.get(message.id)?.queue.push({ errors: message.payload });
+        finish(message.id);
+        break;
+      case "complete":
+        finish(message.id);
+        break;
+    }
+  };
+
+  const closed = (code: number, reason: string) => {
+    socket = undefined;
+    acknowledged = false;
+    clearTimeout(ackTimer);
+    clearInterval(keepAliveTimer);
+    if (subscriptions.size === 0) return;
+    if (FATAL_CLOSE_CODES.has(code) || retries >= retryAttempts) {
+      failAll(
+        new Error(`WebSocket closed with code ${code}${reason ? `: ${reason}` : ""}`),
+      );
+      return;
+    }
+    retryTimer = setTimeout(open, retryDelay(retries++));
+  };
+
+  const finish = (id: string) => {
+    const subscription = subscriptions.get(id);
+    if (subscription === undefined) return;
+    subscriptions.delete(id);
+    subscription.release();
+    subscription.queue.end();
+    closeIfIdle();
+  };
+
+  const failAll = (error: unknown) => {
+    retries = 0;
+    for (const subscription of subscriptions.values()) {
+      subscription.release();
+      subscription.queue.end(error);
+    }
+    subscriptions.clear();
+    closeIfIdle();
+  };
+
+  const closeIfIdle = () => {
+    if (subscriptions.size !== 0) return;
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    clearTimeout(ackTimer);
+    clearInterval(keepAliveTimer);
+    const current = socket;
+    socket = undefined;
+    acknowledged = false;
+    current?.close(1000, "Normal Closure");
+  };
+
+  return (request, variables, operation) => {
+    const id = String(++nextId);
+    const queue = createAsyncQueue<unknown>(() => unsubscribe());
+    const unsubscribe = () => {
+      if (!subscriptions.delete(id)) return;
+      release();
+      send({ id, type: "complete" });
+      closeIfIdle();
+    };
+    const signal = operation?.signal;
+    if (signal?.aborted) {
+      queue.end(signal.reason);
+      return queue;
+    }
+    const abort = () => {
+      unsubscribe();
+      queue.end(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    // Long-lived signals would otherwise keep every ended subscription alive.
+    const release = () => signal?.removeEventListener("abort", abort);
+
+    const payload: SubscribePayload = {
+      query: operation?.includeQuery === false ? undefined : request,
+      variables,
+      operationName: operation?.operationName || undefined,
+      extensions: operation?.extensions,
+    };
+    subscriptions.set(id, { payload, queue, release });
+    if (acknowledged) {
+      send({ id, type: "subscribe", payload });
+    } else if (socket === undefined && retryTimer === undefined) {
+      open();
+    }
+    return queue;
+  };
+};
+
+// ─── Internal helpers ─────────────────────────────────────────────────
+
+const PROTOCOL = "graphql-transport-ws";
+
+const OPEN = 1;
+
+// Closes the protocol treats as final: retrying would fail the same way.
+const FATAL_CLOSE_CODES = new Set([4400, 4401, 4403, 4406, 4409, 4429, 4500]);
+
+interface SubscribePayload {
+  readonly query?: string;
+  readonly variables: Record<string, unknown>;
+  readonly operationName?: string;
+  readonly extensions?: Readonly<Record<string, unknown>>;
+}
+
+interface ActiveSubscription {
+  readonly payload: SubscribePayload;
+  readonly queue: AsyncQueue<unknown>;
+  /** Detaches the subscription from its abort signal. */
+  readonly release: () => void;
+}
+
+type ClientMessage =
+  | { readonly type: "ping" }
+  | { readonly id: string; readonly type: "subscribe"; readonly payload: SubscribePayload }
+  | { readonly id: string; readonly type: "complete" };
+
+type ServerMessage =
+  | { readonly type: "connection_ack" | "ping" | "pong"; readonly payload?: unknown }
+  | { readonly id: string; readonly type: "next"; readonly payload: unknown }
+  | { readonly id: string; readonly type: "error"; readonly payload: unknown }
+  | { readonly id: string; readonly type: "complete" };
@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
+import { createHash } from "node:crypto";
 
 const mocks = vi.hoisted(() => {
   const generate = vi.fn<() => Promise<void>>();
@@ -10,7 +11,12 @@ const mocks = vi.hoisted(() => {
   });
   const loadLocalSchema = vi.fn();
   const loadRemoteSchema = vi.fn();
-  return { generate, generatorCtor, loadLocalSchema, loadRemoteSchema };
+  return {
+    generate,
+    generatorCtor,
+    loadLocalSchema,
+    loadRemoteSchema,
+  };
 });
 
 vi.mock("./codegen/generator", () => ({
@@ -22,7 +28,24 @@ vi.mock("./codegen/schema-loader", () => ({
   loadRemoteSchema: mocks.loadRemoteSchema,
 }));
 
-import { typedgql } from "./vite-plugin";
+import { resolveConfig } from "vite";
+import { typedgql, type PersistedOperationsOptions } from "./vite-plugin";
+import { buildOperationDocument, setOperationCollector } from "./runtime/document";
+import { EnumInputMetadataBuilder } from "./runtime/enum-metadata";
+import { createSchemaType } from "./runtime/schema";
+import { SelectionImpl, withOperationName } from "./runtime/selection";
+
+function createSelectionRoot(name: string) {
+  return new SelectionImpl(
+    [
+      createSchemaType(name, "OBJECT", [], ["id"]),
+      new EnumInputMetadataBuilder().build(),
+      undefined,
+    ],
+    false,
+    "",
+  ).addField("id");
+}
 
 function createConfig(command: "serve" | "build" = "serve") {
   return {
@@ -288,4 +311,154 @@ describe("typedgql vite plugin", () => {
     expect(logger.error).toHaveBeenCalled();
     expect(String(logger.error.mock.calls[0]?.[0])).toContain("[typedgql:start]");
   });
+
+  describe("persisted operations manifest", () => {
+    let projectDir: string;
+
+    // A project whose `.ops` files only load through a plugin of its config.
+    beforeEach(async () => {
+      projectDir = await mkdtemp(join(process.cwd(), ".typedgql-persisted-operations-"));
+      const runtime = join(process.cwd(), "src", "runtime");
+      await writeFile(
+        join(projectDir, "vite.config.mjs"),
+        `export default {
+          plugins: [{
+            name: "ops-files",
+            transform(code, id) {
+              if (!id.endsWith(".ops")) return;
+              return \`import { operation } from "./operation";
+                export default operation("Query", \${JSON.stringify(code.trim())});\`;
+            },
+          }],
+        };\n`,
+      );
+      await writeFile(
+        join(projectDir, "operation.ts"),
+        `import { EnumInputMetadataBuilder } from ${JSON.stringify(join(runtime, "enum-metadata"))};
+        import { createSchemaType } from ${JSON.stringify(join(runtime, "schema"))};
+        import { SelectionImpl, withOperationName } from ${JSON.stringify(join(runtime, "selection"))};
+        export const operation = (typeName: string, name?: string) =>
+          withOperationName(
+            new SelectionImpl(
+              [createSchemaType(typeName, "OBJECT", [], ["id"]), new EnumInputMetadataBuilder().build(), undefined],
+              false,
+              "",
+            ).addField("id"),
+            name,
+          );\n`,
+      );
+      await writeFile(
+        join(projectDir, "viewer.ts"),
+        `import { operation } from "./operation";
+        export const viewer = operation("Query", "Viewer");
+        export const post = operation("Post");\n`,
+      );
+      await writeFile(join(projectDir, "feed.ops"), "Feed\n");
+      await writeFile(
+        join(projectDir, "broken.ts"),
+        `import { operation } from "./operation";
+        export const nav = operation("Query", String(window.location));\n`,
+      );
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    async function buildManifest(
+      persistedOperations: boolean | PersistedOperationsOptions,
+      modules: string[],
+    ) {
+      const config = await resolveConfig(
+        { root: projectDir, configFile: join(projectDir, "vite.config.mjs"), logLevel: "silent" },
+        "build",
+      );
+      const warn = vi.spyOn(config.logger, "warn").mockImplementation(() => {});
+      const plugin = typedgql({ schema: "./schema.graphql", persistedOperations }) as any;
+      plugin.configResolved(config);
+      for (const module of modules) {
+        plugin.transform("query$((q) => q.viewer)", join(projectDir, module));
+      }
+      plugin.transform("export const a = 1;", join(projectDir, "plain.ts"));
+      const emitFile = vi.fn();
+      const context = {
+        emitFile,
+        error: (message: string) => {
+          throw new Error(message);
+        },
+      };
+      return { warn, emitFile, run: () => plugin.generateBundle.call(context) };
+    }
+
+    const manifestOf = (...operations: [string, string | undefined][]) => {
+      const documents = operations.map(([typeName, name]) =>
+        buildOperationDocument(withOperationName(createSelectionRoot(typeName), name)),
+      );
+      const entries = documents
+        .map((document) => [createHash("sha256").update(document).digest("hex"), document])
+        .sort(([a], [b]) => (a! < b! ? -1 : 1));
+      return `${JSON.stringify(Object.fromEntries(entries), null, 2)}\n`;
+    };
+
+    it("collects module-scope operations with the app's config and plugins", async () => {
+      const { emitFile, run } = await buildManifest(true, ["viewer.ts?v=1", "feed.ops"]);
+      await run();
+      await run();
+
+      expect(emitFile).toHaveBeenCalledTimes(2);
+      expect(emitFile).toHaveBeenCalledWith({
+        type: "asset",
+        fileName: "persisted-operations.json",
+        source: manifestOf(["Query", "Viewer"], ["Query", "Feed"]),
+      });
+    }, 60_000);
+
+    it("fails the build when a module can't be evaluated unless strict is off", async () => {
+      const strict = await buildManifest({}, ["viewer.ts", "broken.ts"]);
+      await expect(strict.run()).rejects.toThrow(/broken\.ts: ReferenceError: window is not defined/);
+      expect(strict.emitFile).not.toHaveBeenCalled();
+
+      const lenient = await buildManifest({ strict: false, fileName: "ops.json" }, [
+        "viewer.ts",
+        "broken.ts",
+      ]);
+      await lenient.run();
+      expect(lenient.warn).toHaveBeenCalledTimes(1);
+      expect(String(lenient.warn.mock.calls[0]?.[0])).toContain("missing from ops.json");
+      expect(lenient.emitFile).toHaveBeenCalledWith({
+        type: "asset",
+        fileName: "ops.json",
+        source: manifestOf(["Query", "Viewer"]),
+      });
+    }, 60_000);
+  });
+
+  it("leaves itself out of the server collecting operations", () => {
+    const plugin = typedgql({ schema: "./schema.graphql" }) as any;
+    expect(plugin.apply()).toBe(true);
+    setOperationCollector(() => {});
+    try {
+      expect(plugin.apply()).toBe(false);
+    } finally {
+      setOperationCollector(undefined);
+    }
+  });
+
+  it("does not collect operations outside build or when disabled", async () => {
+    const serve = typedgql({
+      schema: "./schema.graphql",
+      persistedOperations: { fileName: "ops.json" },
+    }) as any;
+    serve.configResolved(createConfig("serve"));
+    serve.transform("query$(x)", "/project/src/viewer.ts");
+    await serve.generateBundle.call({ emitFile: vi.fn() });
+
+    const disabled = typedgql({ schema: "./schema.graphql" }) as any;
+    disabled.configResolved(createConfig("build"));
+    disabled.transform("query$(x)", "/project/src/viewer.ts");
+    const emitFile = vi.fn();
+    await disabled.generateBundle.call({ emitFile });
+
+    expect(emitFile).not.toHaveBeenCalled();
+  });
 });
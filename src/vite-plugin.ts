@@ -7,10 +7,11 @@ import { createHash } from "node:crypto";
 import { readFile } from "node:fs/promises";
 import { resolve } from "node:path";
 import type { Plugin, ResolvedConfig, Logger, UserConfig } from "vite";
-import { normalizePath } from "vite";
+import { createServer, normalizePath } from "vite";
 import { Generator } from "./codegen/generator";
 import { loadLocalSchema, loadRemoteSchema } from "./codegen/schema-loader";
 import type { CodegenOptions } from "./codegen/options";
+import { hasOperationCollector, setOperationCollector } from "./runtime/document";
 
 export interface DevDependencyHmrOptions {
   /**
@@ -24,6 +25,23 @@ export interface DevDependencyHmrOptions {
   strategy?: "reload" | "restart";
 }
 
+export interface PersistedOperationsOptions {
+  /**
+   * Manifest file name, relative to the build output directory.
+   *
+   * @default "persisted-operations.json"
+   */
+  fileName?: string;
+  /**
+   * Fail the build when a module creating operations can't be evaluated, as
+   * its operations would be missing from the manifest. When `false`, a
+   * warning is logged instead.
+   *
+   * @default true
+   */
+  strict?: boolean;
+}
+
 export interface TypedGqlPluginOptions extends Omit<
   CodegenOptions,
   "schemaLoader"
@@ -47,6 +65,18 @@ export interface TypedGqlPluginOptions extends Omit<
    * Useful when developing typedgql as an installed package rather than workspace source.
    */
   devDependencyHmr?: boolean | DevDependencyHmrOptions;
+  /**
+   * Emit a manifest of every operation built with `query$` / `mutation$` /
+   * `subscription$` during `vite build`, mapping the SHA-256 hash of each
+   * document to its text. Pair it with `persistedDocumentExecutor` at runtime.
+   *
+   * Operations are collected by evaluating the modules that call these
+   * factories in an SSR server using the app's Vite config and plugins, so
+   * they must be created at module scope: selections built inside functions
+   * (components, hooks) are not collected, and neither are documents changed
+   * by a per-call `operationName`; name operations in the factory call.
+   */
+  persistedOperations?: boolean | PersistedOperationsOptions;
 }
 
 function isRemote(schema: string): boolean {
@@ -72,6 +102,19 @@ function resolveDevDependencyHmr(
   return { strategy: option.strategy ?? "reload" };
 }
 
+function resolvePersistedOperations(
+  option: boolean | PersistedOperationsOptions | undefined,
+): { fileName: string; strict: boolean } | undefined {
+  if (!option) return undefined;
+  if (option === true) {
+    return { fileName: "persisted-operations.json", strict: true };
+  }
+  return {
+    fileName: option.fileName ?? "persisted-operations.json",
+    strict: option.strict ?? true,
+  };
+}
+
 function buildNegatedWatchPattern(packageName: string): string {
   return `!**/node_modules/${packageName}/**`;
 }
@@ -79,6 +122,8 @@ function buildNegatedWatchPattern(packageName: string): string {
 const DEV_DEP_HMR_PACKAGE_NAME = "@ptdgrp/typedgql";
 const DEV_DEP_HMR_WATCH_DIRS = ["dist"] as const;
 
+const OPERATION_FACTORY_CALL = /\b(?:query|mutation|subscription)\$\s*\(/;
+
 async function hashFile(path: string): Promise<string | undefined> {
   try {
     const content = await readFile(path);
@@ -110,9 +155,16 @@ async function hashFile(path: string): Promise<string | undefined> {
  * ```
  */
 export function typedgql(options: TypedGqlPluginOptions): Plugin {
-  const { schema, schemaHeaders, devDependencyHmr, ...generatorOptions } = options;
+  const {
+    schema,
+    schemaHeaders,
+    devDependencyHmr,
+    persistedOperations,
+    ...generatorOptions
+  } = options;
   const remote = isRemote(schema);
   const depHmr = resolveDevDependencyHmr(devDependencyHmr);
+  const manifest = resolvePersistedOperations(persistedOperations);
 
   const codegenOptions: CodegenOptions = {
     ...generatorOptions,
@@ -125,6 +177,8 @@ export function typedgql(options: TypedGqlPluginOptions): Plugin {
   let initSchemaHashPromise: Promise<void> | undefined;
   let resolvedConfig: ResolvedConfig;
   let logger: Logger;
+  const operationModules = new Set<string>();
+  let manifestSourcePromise: Promise<string> | undefined;
 
   async function runCodegen(trigger: string) {
     if (isRunning) return;
@@ -142,9 +196,60 @@ export function typedgql(options: TypedGqlPluginOptions): Plugin {
     }
   }
 
+  // Evaluates the collected modules in a throwaway SSR server; every root
+  // selection they create at module scope reports its document. The server
+  // loads the app's own config, so modules needing its plugins (e.g. SFCs)
+  // load as in the build; this plugin excludes itself from it (`apply`).
+  async function collectOperations(): Promise<string> {
+    const documents = new Map<string, string>();
+    setOperationCollector((document) => {
+      documents.set(createHash("sha256").update(document).digest("hex"), document);
+    });
+    const failures: string[] = [];
+    try {
+      const server = await createServer({
+        ...resolvedConfig.inlineConfig,
+        configFile: resolvedConfig.configFile ?? false,
+        root: resolvedConfig.root,
+        mode: resolvedConfig.mode,
+        server: { middlewareMode: true, hmr: false, watch: null },
+        appType: "custom",
+        logLevel: "silent",
+        clearScreen: false,
+        optimizeDeps: { noDiscovery: true, include: [] },
+        ssr: { noExternal: [DEV_DEP_HMR_PACKAGE_NAME] },
+      });
+      try {
+        for (const id of operationModules) {
+          try {
+            await server.ssrLoadModule(id);
+          } catch (err) {
+            failures.push(`  ${id}: ${err}`);
+          }
+        }
+      } finally {
+        await server.close();
+      }
+    } finally {
+      setOperationCollector(undefined);
+    }
+    if (failures.length !== 0) {
+      const message =
+        `operations of modules that could not be evaluated are missing from ` +
+        `${manifest!.fileName}:\n${failures.join("\n")}`;
+      if (manifest!.strict) throw new Error(message);
+      logger.warn(`\x1b[36m[typedgql:build]\x1b[0m ${message}`);
+    }
+    const sorted = Array.from(documents).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `${JSON.stringify(Object.fromEntries(sorted), null, 2)}\n`;
+  }
+
   return {
     name: "vite-plugin-typedgql",
 
+    // Left out of the SSR server collecting operations for the manifest.
+    apply: () => !hasOperationCollector(),
+
     config(config): UserConfig | void {
       if (!depHmr) return;
       const negatedPattern = buildNegatedWatchPattern(DEV_DEP_HMR_PACKAGE_NAME);
@@ -183,6 +288,33 @@ export function typedgql(options: TypedGqlPluginOptions): Plugin {
       await runCodegen(trigger);
     },
 
+    /**
+     * Build-only: remember modules that create operations for the manifest.
+     */
+    transform(code, id) {
+      if (!manifest || resolvedConfig?.command !== "build") return;
+      if (id.startsWith("\0") || id.includes("/node_modules/")) return;
+      if (OPERATION_FACTORY_CALL.test(code)) {
+        operationModules.add(id.split("?")[0]!);
+      }
+    },
+
+    /**
+     * Build-only: emit the persisted operation manifest next to the bundle.
+     */
+    async generateBundle() {
+      if (!manifest || resolvedConfig?.command !== "build") return;
+      // Multiple outputs share one collection pass.
+      manifestSourcePromise ??= collectOperations();
+      let source: string;
+      try {
+        source = await manifestSourcePromise;
+      } catch (err) {
+        this.error(`[typedgql] ${err instanceof Error ? err.message : err}`);
+      }
+      this.emitFile({ type: "asset", fileName: manifest.fileName, source });
+    },
+
     /**
      * Dev-only: watch the local schema file and re-run on change.
      * Not registered for remote schemas — those re-run on the next dev/build start.
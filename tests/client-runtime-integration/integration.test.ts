@@ -0,0 +1,865 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { rm } from "fs/promises";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { Generator } from "../../src/codegen/generator";
+import { loadLocalSchema } from "../../src/codegen/schema-loader";
+import { createMockExecutor } from "../../src/executors/mock-executor";
+import { rewriteGeneratedImportsToSrcEntry } from "../helpers/rewrite-generated-imports";
+import {
+  NormalizedCache,
+  ParameterRef,
+  combine,
+  composeExecutor,
+} from "../../src/index";
+
+const SCHEMA_FILE = join(
+  process.cwd(),
+  "tests",
+  "client-runtime-integration",
+  "schema.graphql",
+);
+const GENERATED_DIR = join(process.cwd(), "__generated-client-runtime-integration-test");
+const GENERATED_INDEX_FILE = join(GENERATED_DIR, "index.ts");
+const QUERY_SELECTION_FILE = join(
+  GENERATED_DIR,
+  "selections",
+  "query-selection.ts",
+);
+const MUTATION_SELECTION_FILE = join(
+  GENERATED_DIR,
+  "selections",
+  "mutation-selection.ts",
+);
+const SUBSCRIPTION_SELECTION_FILE = join(
+  GENERATED_DIR,
+  "selections",
+  "subscription-selection.ts",
+);
+
+describe("Runtime + codegen integration (client runtime)", () => {
+  let runtimeMod: any;
+  let query$: any;
+  let mutation$: any;
+  let subscription$: any;
+
+  beforeAll(async () => {
+    await rm(GENERATED_DIR, { recursive: true, force: true });
+
+    const generator = new Generator({
+      schemaLoader: () => loadLocalSchema(SCHEMA_FILE),
+      targetDir: GENERATED_DIR,
+      scalarTypeMap: { DateTime: "Date" },
+      scalarCodecs: {
+        DateTime: {
+          module: "./tests/client-runtime-integration/scalar-codecs",
+          export: "dateTimeCodec",
+        },
+      },
+    });
+    await generator.generate();
+    await rewriteGeneratedImportsToSrcEntry(GENERATED_DIR);
+
+    runtimeMod = await import(pathToFileURL(GENERATED_INDEX_FILE).href);
+    query$ = (await import(pathToFileURL(QUERY_SELECTION_FILE).href)).query$;
+    mutation$ = (await import(pathToFileURL(MUTATION_SELECTION_FILE).href))
+      .mutation$;
+    subscription$ = (
+      await import(pathToFileURL(SUBSCRIPTION_SELECTION_FILE).href)
+    ).subscription$;
+  });
+
+  afterAll(async () => {
+    await rm(GENERATED_DIR, { recursive: true, force: true });
+  });
+
+  const partialResponse = {
+    data: { viewer: { id: "u1", name: "Ash" }, post: null },
+    errors: [{ message: "post resolver failed", path: ["post"] }],
+    extensions: { traceId: "t1" },
+  };
+
+  it("rejects responses with errors under the default error policy", async () => {
+    const selection = query$((q: any) =>
+      q.viewer((u: any) => u.id.name).post({ id: "p1" }, (p: any) => p.id),
+    );
+    const executor = async () => partialResponse;
+
+    await expect(runtimeMod.execute(selection, { executor })).rejects.toHaveProperty(
+      "errors",
+    );
+    await expect(
+      runtimeMod.executeResult(selection, { executor }),
+    ).rejects.toHaveProperty("errors");
+  });
+
+  it("returns partial data and errors with errorPolicy 'all'", async () => {
+    const selection = query$((q: any) =>
+      q.viewer((u: any) => u.id.name).post({ id: "p1" }, (p: any) => p.id),
+    );
+    const executor = async () => partialResponse;
+
+    const result = await runtimeMod.executeResult(selection, {
+      executor,
+      errorPolicy: "all",
+    });
+    expect(result.data.viewer).toEqual({ id: "u1", name: "Ash" });
+    expect(result.data.post).toBeUndefined();
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toBe("post resolver failed");
+    expect(result.extensions).toEqual({ traceId: "t1" });
+
+    const data = await runtimeMod.execute(selection, {
+      executor,
+      errorPolicy: "all",
+    });
+    expect(data.viewer.name).toBe("Ash");
+  });
+
+  it("drops errors with errorPolicy 'ignore'", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    const executor = async () => partialResponse;
+
+    const result = await runtimeMod.executeResult(selection, {
+      executor,
+      errorPolicy: "ignore",
+    });
+    expect(result.data.viewer.id).toBe("u1");
+    expect(result.errors).toBeUndefined();
+
+    for (const response of [
+      { errors: [{ message: "boom" }] },
+      { data: null, errors: [{ message: "boom" }] },
+    ]) {
+      await expect(
+        runtimeMod.execute(selection, {
+          executor: async () => response,
+          errorPolicy: "ignore",
+        }),
+      ).rejects.toThrow("boom");
+      await expect(
+        runtimeMod.execute(selection, {
+          executor: async () => response,
+          errorPolicy: "ignore",
+          nullMode: "preserve",
+        }),
+      ).rejects.toThrow("boom");
+    }
+  });
+
+  it("keeps nulls with nullMode 'preserve' per call or per client", async () => {
+    const selection = query$((q: any) =>
+      q.viewer((u: any) => u.id.name).post({ id: "p1" }, (p: any) => p.id),
+    );
+    const response = { data: { viewer: { id: "u1", name: "Ash" }, post: null } };
+    const executor = async () => response;
+
+    const preserved = await runtimeMod.execute(selection, {
+      executor,
+      nullMode: "preserve",
+    });
+    expect(preserved).toBe(response.data);
+    expect(preserved.post).toBeNull();
+
+    const client = runtimeMod.createClient({ executor, nullMode: "preserve" });
+    expect((await client.execute(selection)).post).toBeNull();
+    const converted = await client.execute(selection, { nullMode: "undefined" });
+    expect(converted).toEqual({ viewer: { id: "u1", name: "Ash" }, post: undefined });
+    expect("post" in converted).toBe(true);
+  });
+
+  it("applies the global error policy and still rejects when no data came back", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    runtimeMod.setGraphQLErrorPolicy("all");
+    try {
+      const data = await runtimeMod.execute(selection, {
+        executor: async () => partialResponse,
+      });
+      expect(data.viewer.id).toBe("u1");
+
+      await expect(
+        runtimeMod.execute(selection, {
+          executor: async () => ({ errors: [{ message: "boom" }] }),
+        }),
+      ).rejects.toHaveProperty("errors");
+    } finally {
+      runtimeMod.setGraphQLErrorPolicy("none");
+    }
+  });
+
+  it("keeps locations, numeric paths and extensions on GraphQLError", async () => {
+    const selection = query$((q: any) => q.posts((p: any) => p.id.title));
+    const executor = async () => ({
+      errors: [
+        {
+          message: "Not signed in",
+          locations: [{ line: 2, column: 3 }],
+          path: ["posts", 1, "title"],
+          extensions: { code: "UNAUTHENTICATED" },
+        },
+        { message: "Rate limited", extensions: { code: "RATE_LIMITED" } },
+      ],
+    });
+
+    let caught: any;
+    try {
+      await runtimeMod.execute(selection, { executor });
+    } catch (e) {
+      caught = e;
+    }
+
+    expect(caught).toBeInstanceOf(runtimeMod.GraphQLError);
+    expect(caught.name).toBe("GraphQLError");
+    expect(caught.message).toBe(
+      "2 GraphQL errors:\n  - Not signed in (at posts.1.title)\n  - Rate limited",
+    );
+    expect(caught.errors[0]).toEqual({
+      message: "Not signed in",
+      locations: [{ line: 2, column: 3 }],
+      path: ["posts", 1, "title"],
+      extensions: { code: "UNAUTHENTICATED" },
+    });
+    expect(caught.errors[1].path).toEqual([]);
+    expect(caught.hasCode("UNAUTHENTICATED")).toBe(true);
+    expect(caught.hasCode("FORBIDDEN")).toBe(false);
+    expect(caught.codes).toEqual(["UNAUTHENTICATED", "RATE_LIMITED"]);
+  });
+
+  it("uses the single error message as GraphQLError message", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    await expect(
+      runtimeMod.execute(selection, {
+        executor: async () => ({ errors: [{ message: "boom" }] }),
+      }),
+    ).rejects.toThrow("boom");
+  });
+
+  it("passes the operation to composed executor middleware", async () => {
+    const selection = query$(
+      (q: any) => q.post({ id: "p1" }, (p: any) => p.id.title),
+      "PostById",
+    );
+    const seen: any[] = [];
+    const composed = composeExecutor(
+      async (operation: any, next: any) => {
+        seen.push(operation);
+        const response = await next(operation);
+        seen.push(response);
+        return response;
+      },
+      async () => ({ data: { post: { id: "p1", title: "Hello" } } }),
+    );
+
+    const data = await runtimeMod.execute(selection, {
+      executor: composed,
+      variables: {},
+    });
+
+    expect(data.post.title).toBe("Hello");
+    expect(seen[0].operationName).toBe("PostById");
+    expect(seen[0].operationType).toBe("query");
+    expect(seen[0].request).toContain("query PostById");
+    expect(seen[0].runtime.fieldMap.has("post")).toBe(true);
+    expect(seen[1]).toEqual({ data: { post: { id: "p1", title: "Hello" } } });
+  });
+
+  it("forwards the abort signal to the executor and rejects on abort", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    const controller = new AbortController();
+    let executorSignal: AbortSignal | undefined;
+    const executor = (_request: string, _variables: unknown, operation: any) => {
+      executorSignal = operation.signal;
+      return new Promise(() => {
+        // never settles; the runtime must still reject on abort
+      });
+    };
+
+    const pending = runtimeMod.execute(selection, {
+      executor,
+      signal: controller.signal,
+    });
+    controller.abort(new Error("route changed"));
+
+    await expect(pending).rejects.toThrow("route changed");
+    expect(executorSignal?.aborted).toBe(true);
+  });
+
+  it("rejects already-aborted calls without calling the executor", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    let called = false;
+    await expect(
+      runtimeMod.execute(selection, {
+        executor: async () => {
+          called = true;
+          return {};
+        },
+        signal: AbortSignal.abort(new Error("cancelled")),
+      }),
+    ).rejects.toThrow("cancelled");
+    expect(called).toBe(false);
+  });
+
+  it("aborts with a TimeoutError after timeoutMs", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id));
+    let executorSignal: AbortSignal | undefined;
+    const executor = (_request: string, _variables: unknown, operation: any) => {
+      executorSignal = operation.signal;
+      return new Promise(() => {});
+    };
+
+    await expect(
+      runtimeMod.execute(selection, { executor, timeoutMs: 10 }),
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(executorSignal?.aborted).toBe(true);
+  });
+
+  it("tears down the transport iterator when for-await exits early", async () => {
+    const selection = subscription$((s: any) => s.postCreated((p: any) => p.id));
+    let closed = false;
+    async function* subscriber() {
+      try {
+        yield { data: { postCreated: { id: "p1" } } };
+        yield { data: { postCreated: { id: "p2" } } };
+      } finally {
+        closed = true;
+      }
+    }
+
+    const ids: string[] = [];
+    for await (const payload of runtimeMod.subscribe(selection, { subscriber })) {
+      ids.push(payload.postCreated.id);
+      break;
+    }
+
+    expect(ids).toEqual(["p1"]);
+    expect(closed).toBe(true);
+  });
+
+  it("ends an idle subscription on abort and returns the transport iterator", async () => {
+    const selection = subscription$((s: any) => s.postCreated((p: any) => p.id));
+    const controller = new AbortController();
+    let returned = false;
+    let subscriberSignal: AbortSignal | undefined;
+    const subscriber = (_request: string, _variables: unknown, operation: any) => {
+      subscriberSignal = operation.signal;
+      return {
+        [Symbol.asyncIterator]() {
+          return {
+            next: () => new Promise<IteratorResult<unknown>>(() => {}),
+            return: async () => {
+              returned = true;
+              return { value: undefined, done: true as const };
+            },
+          };
+        },
+      };
+    };
+
+    const iterator = runtimeMod
+      .subscribe(selection, { subscriber, signal: controller.signal })
+      [Symbol.asyncIterator]();
+    const pending = iterator.next();
+    setTimeout(() => controller.abort(new Error("unmounted")), 0);
+
+    await expect(pending).rejects.toThrow("unmounted");
+    expect(subscriberSignal?.aborted).toBe(true);
+    expect(returned).toBe(true);
+  });
+
+  it("isolates executors per client and keeps the global setters as default client", async () => {
+    const selection = query$((q: any) => q.viewer((u: any) => u.id.name));
+    const tenantA = runtimeMod.createClient({
+      executor: async () => ({ data: { viewer: { id: "a", name: "Tenant A" } } }),
+    });
+    const tenantB = runtimeMod.createClient({
+      executor: async () => ({ data: { viewer: { id: "b", name: "Tenant B" } } }),
+    });
+    runtimeMod.setGraphQLExecutor(async () => ({
+      data: { viewer: { id: "g", name: "Global" } },
+    }));
+
+    const [a, b, global] = await Promise.all([
+      tenantA.execute(selection),
+      tenantB.execute(selection),
+      runtimeMod.execute(selection),
+    ]);
+    expect(a.viewer.name).toBe("Tenant A");
+    expect(b.viewer.name).toBe("Tenant B");
+    expect(global.viewer.name).toBe("Global");
+
+    const overridden = await tenantA.execute(selection, {
+      executor: async () => ({ data: { viewer: { id: "o", name: "Override" } } }),
+    });
+    expect(overridden.viewer.name).toBe("Override");
+  });
+
+  it("applies client-level error policy and subscriber", async () => {
+    const client = runtimeMod.createClient({
+      executor: async () => partialResponse,
+      subscriber: async function* () {
+        yield { data: { postCreated: { id: "p9" } } };
+      },
+      errorPolicy: "all",
+    });
+
+    const result = await client.executeResult(
+      query$((q: any) => q.viewer((u: any) => u.id)),
+    );
+    expect(result.errors).toHaveLength(1);
+
+    const ids: string[] = [];
+    for await (const payload of client.subscribe(
+      subscription$((s: any) => s.postCreated((p: any) => p.id)),
+    )) {
+      ids.push(payload.postCreated.id);
+    }
+    expect(ids).toEqual(["p9"]);
+
+    const bare = runtimeMod.createClient();
+    await expect(
+      bare.execute(query$((q: any) => q.viewer((u: any) => u.id))),
+    ).rejects.toThrow("Executor not set");
+  });
+
+  it("serves cache-first queries from the normalized cache", async () => {
+    const calls: string[] = [];
+    const client = runtimeMod.createClient({
+      cache: new NormalizedCache(),
+      executor: async (_request: string, variables: any) => {
+        calls.push(variables.id);
+        return {
+          data: { post: { id: variables.id, title: "Hello", author: null } },
+        };
+      },
+    });
+    const selection = query$((q: any) =>
+      q.post({ id: ParameterRef.of("id") }, (p: any) =>
+        p.id.title.author((u: any) => u.id),
+      ),
+    );
+
+    const first = await client.execute(selection, { variables: { id: "p1" } });
+    const second = await client.execute(selection, { variables: { id: "p1" } });
+    expect(second).toEqual(first);
+    expect(second.post.author).toBeUndefined();
+    expect(calls).toEqual(["p1"]);
+
+    await client.execute(selection, { variables: { id: "p2" } });
+    await client.execute(selection, {
+      variables: { id: "p1" },
+      fetchPolicy: "network-only",
+    });
+    expect(calls).toEqual(["p1", "p2", "p1"]);
+  });
+
+  it("updates cached entities from mutation results", async () => {
+    const client = runtimeMod.createClient({
+      cache: new NormalizedCache(),
+      executor: async (request: string) =>
+        request.startsWith("mutation")
+          ? { data: { updatePost: { id: "p1", title: "Renamed" } } }
+          : { data: { posts: [{ id: "p1", title: "Hello" }] } },
+    });
+    const posts = query$((q: any) => q.posts({}, (p: any) => p.id.title));
+    const rename = mutation$((m: any) =>
+      m.updatePost({ id: "p1", title: "Renamed" }, (p: any) => p.id.title),
+    );
+
+    expect((await client.execute(posts)).posts[0].title).toBe("Hello");
+    await client.execute(rename);
+    const cached = await client.execute(posts, {
+      executor: async () => {
+        throw new Error("should be served from cache");
+      },
+    });
+    expect(cached.posts[0].title).toBe("Renamed");
+  });
+
+  it("refreshes the cache in the background with cache-and-network", async () => {
+    let title = "v1";
+    const client = runtimeMod.createClient({
+      cache: new NormalizedCache(),
+      fetchPolicy: "cache-and-network",
+      executor: async () => ({
+        data: { viewer: { id: "u1", name: title } },
+      }),
+    });
+    const selection = query$((q: any) => q.viewer((u: any) => u.id.name));
+
+    expect((await client.execute(selection)).viewer.name).toBe("v1");
+    title = "v2";
+    expect((await client.execute(selection)).viewer.name).toBe("v1");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      (await client.execute(selection, { fetchPolicy: "cache-first" })).viewer
+        .name,
+    ).toBe("v2");
+  });
+
+  it("re-emits watched queries when cached entities change", async () => {
+    const cache = new NormalizedCache();
+    let fetches = 0;
+    const client = runtimeMod.createClient({
+      cache,
+      executor: async (request: string) => {
+        if (request.startsWith("mutation")) {
+          return { data: { updatePost: { id: "p1", title: "Renamed" } } };
+        }
+        fetches++;
+        return { data: { posts: [{ id: "p1", title: "Hello" }] } };
+      },
+      subscriber: async function* () {
+        yield { data: { postCreated: { id: "p1", title: "Pushed" } } };
+      },
+    });
+    const posts = query$((q: any) => q.posts({}, (p: any) => p.id.title));
+    const watched = client.watch(posts);
+    const results = watched[Symbol.asyncIterator]();
+
+    expect((await results.next()).value.data.posts[0].title).toBe("Hello");
+
+    await client.execute(
+      mutation$((m: any) =>
+        m.updatePost({ id: "p1", title: "Renamed" }, (p: any) => p.id.title),
+      ),
+    );
+    expect((await results.next()).value.data.posts[0].title).toBe("Renamed");
+
+    for await (const _ of client.subscribe(
+      subscription$((s: any) => s.postCreated((p: any) => p.id.title)),
+    ));
+    expect((await results.next()).value.data.posts[0].title).toBe("Pushed");
+    expect(watched.result.data.posts[0].title).toBe("Pushed");
+
+    // Evicted entities are fetched again.
+    cache.clear();
+    await vi.waitFor(() => expect(fetches).toBe(2));
+    expect((await results.next()).value.data.posts[0].title).toBe("Hello");
+
+    await results.return!();
+    cache.clear();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(fetches).toBe(2);
+  });
+
+  it("refetches, switches variables and polls watched queries", async () => {
+    const calls: string[] = [];
+    const client = runtimeMod.createClient({
+      executor: async (_request: string, variables: any) => {
+        calls.push(variables.id);
+        return {
+          data: { post: { id: variables.id, title: `v${calls.length}`, author: null } },
+        };
+      },
+    });
+    const selection = query$((q: any) =>
+      q.post({ id: ParameterRef.of("id") }, (p: any) => p.id.title),
+    );
+    const watched = client.watch(selection, { variables: { id: "p1" } });
+    const titles: string[] = [];
+    const subscription = watched.subscribe((result: any) => titles.push(result.data.post.title));
+
+    await vi.waitFor(() => expect(titles).toEqual(["v1"]));
+    expect((await watched.refetch()).data.post.title).toBe("v2");
+    await watched.setVariables({ id: "p2" });
+    expect(watched.variables).toEqual({ id: "p2" });
+    expect(titles).toEqual(["v1", "v2", "v3"]);
+    expect(calls).toEqual(["p1", "p1", "p2"]);
+
+    const late: string[] = [];
+    watched.subscribe((result: any) => late.push(result.data.post.title)).unsubscribe();
+    expect(late).toEqual(["v3"]);
+    subscription.unsubscribe();
+
+    const polled = client.watch(selection, { variables: { id: "p3" }, pollInterval: 10 });
+    const stop = polled.subscribe(() => {});
+    await vi.waitFor(() =>
+      expect(calls.filter((id) => id === "p3").length).toBeGreaterThanOrEqual(3),
+    );
+    stop.unsubscribe();
+    const count = calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(calls).toHaveLength(count);
+  });
+
+  it("drops watched results of superseded fetches that settle late", async () => {
+    for (const cache of [undefined, new NormalizedCache()]) {
+      const pending = new Map<string, () => void>();
+      const client = runtimeMod.createClient({
+        cache,
+        executor: (_request: string, variables: any) =>
+          new Promise((resolve) =>
+            pending.set(variables.id, () =>
+              resolve({ data: { post: { id: variables.id, title: variables.id } } }),
+            ),
+          ),
+      });
+      const selection = query$((q: any) =>
+        q.post({ id: ParameterRef.of("id") }, (p: any) => p.id.title),
+      );
+      const watched = client.watch(selection, { variables: { id: "old" } });
+      const titles: string[] = [];
+      const subscription = watched.subscribe((result: any) =>
+        titles.push(result.data.post.title),
+      );
+
+      const switched = watched.setVariables({ id: "new" });
+      pending.get("new")!();
+      await switched;
+      pending.get("old")!();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(titles).toEqual(["new"]);
+      expect(watched.result.data.post.title).toBe("new");
+      subscription.unsubscribe();
+    }
+  });
+
+  it("applies optimistic mutation responses until the real result or a failure", async () => {
+    let respond!: (response: unknown) => void;
+    const client = runtimeMod.createClient({
+      cache: new NormalizedCache(),
+      executor: async (request: string) =>
+        request.startsWith("mutation")
+          ? new Promise((resolve) => {
+              respond = resolve;
+            })
+          : {
+              data: {
+                posts: [{ id: "p1", title: "Hello", publishedAt: "2024-01-01T00:00:00.000Z" }],
+              },
+            },
+    });
+    const posts = query$((q: any) => q.posts({}, (p: any) => p.id.title.publishedAt));
+    const rename = mutation$((m: any) =>
+      m.updatePost({ id: "p1", title: "Renamed" }, (p: any) => p.id.title.publishedAt),
+    );
+    const titles: string[] = [];
+    const watched = client.watch(posts);
+    const subscription = watched.subscribe((result: any) =>
+      titles.push(result.data.posts[0].title),
+    );
+    await vi.waitFor(() => expect(titles).toEqual(["Hello"]));
+
+    const optimisticResponse = {
+      updatePost: {
+        id: "p1",
+        title: "Renamed…",
+        publishedAt: new Date("2024-01-02T00:00:00.000Z"),
+      },
+    };
+    const renamed = client.execute(rename, { optimisticResponse });
+    expect(titles).toEqual(["Hello", "Renamed…"]);
+    // Custom scalars of the prediction are stored serialized, like responses.
+    expect(watched.result.data.posts[0].publishedAt.toISOString()).toBe(
+      "2024-01-02T00:00:00.000Z",
+    );
+    respond({
+      data: {
+        updatePost: { id: "p1", title: "Renamed", publishedAt: "2024-01-03T00:00:00.000Z" },
+      },
+    });
+    await renamed;
+    expect(titles).toEqual(["Hello", "Renamed…", "Renamed"]);
+
+    const failed = client.execute(rename, { optimisticResponse });
+    respond({ errors: [{ message: "forbidden" }] });
+    await expect(failed).rejects.toThrow("forbidden");
+    expect(titles).toEqual(["Hello", "Renamed…", "Renamed", "Renamed…", "Renamed"]);
+    subscription.unsubscribe();
+  });
+
+  it("updates, invalidates and refetches cached queries after mutations", async () => {
+    const stored = [{ id: "p1", title: "Hello" }];
+    const requests: string[] = [];
+    const client = runtimeMod.createClient({
+      cache: new NormalizedCache(),
+      executor: async (request: string, variables: any) => {
+        requests.push(request.split(/[({]/)[0]!.trim());
+        if (request.startsWith("mutation")) {
+          stored.push({ id: `p${stored.length + 1}`, title: "Created" });
+          return { data: { createPost: stored.at(-1) } };
+        }
+        return request.includes("viewer")
+          ? { data: { viewer: { id: "u1", name: "Ash" } } }
+          : { data: { posts: stored.slice(0, variables.first ?? stored.length) } };
+      },
+    });
+    const posts = query$((q: any) => q.posts({}, (p: any) => p.id.title));
+    const firstPosts = query$((q: any) =>
+      q.posts({ first: ParameterRef.of("first") }, (p: any) => p.id.title),
+    );
+    const viewer = query$((q: any) => q.viewer((u: any) => u.id.name));
+    const create = mutation$((m: any) =>
+      m.createPost({ title: "Created" }, (p: any) => p.id.title),
+    );
+    const titles: string[][] = [];
+    const subscription = client
+      .watch(posts)
+      .subscribe((result: any) => titles.push(result.data.posts.map((p: any) => p.title)));
+    await client.execute(viewer);
+    await vi.waitFor(() => expect(titles).toEqual([["Hello"]]));
+
+    // `update` edits cached queries in the form `execute` returns them.
+    await client.execute(create, {
+      update: (cache: any, data: any) => {
+        const cached = cache.readQuery(posts);
+        cache.writeQuery(posts, { posts: [...cached.posts, data.createPost] });
+      },
+    });
+    expect(titles).toEqual([["Hello"], ["Hello", "Created"]]);
+
+    // Watches reading invalidated entities fetch again.
+    await client.execute(create, { invalidate: ["Post"] });
+    await vi.waitFor(() => expect(titles.at(-1)).toEqual(["Hello", "Created", "Created"]));
+    expect((await client.execute(viewer)).viewer.name).toBe("Ash");
+    expect(requests.filter((request) => request === "query")).toHaveLength(3);
+
+    requests.length = 0;
+    await client.execute(create, { refetch: [viewer, [firstPosts, { first: 1 }]] });
+    await vi.waitFor(() => expect(requests).toEqual(["mutation", "query", "query"]));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // Served from what the refetch cached.
+    expect((await client.execute(firstPosts, { variables: { first: 1 } })).posts).toEqual([
+      { id: "p1", title: "Hello" },
+    ]);
+    expect(requests).toHaveLength(3);
+    subscription.unsubscribe();
+  });
+
+  it("yields progressively merged results for @defer and @stream", async () => {
+    const selection = query$((q: any) =>
+      q
+        .viewer((u: any) => u.id.$on((it: any) => it.name).$defer("Name"))
+        .posts({}, (p: any) => p.id)
+        .$stream(1),
+    );
+    const requests: string[] = [];
+    const executor = async (request: string) => {
+      requests.push(request);
+      return (async function* () {
+        yield { data: { viewer: { id: "u1" }, posts: [{ id: "p1" }] }, hasNext: true };
+        yield {
+          incremental: [
+            { data: { name: "Ash" }, path: ["viewer"], label: "Name" },
+            { items: [{ id: "p2" }], path: ["posts", 1] },
+          ],
+          hasNext: false,
+        };
+      })();
+    };
+
+    const results: any[] = [];
+    for await (const result of runtimeMod.executeIncremental(selection, { executor })) {
+      results.push(result);
+    }
+
+    expect(requests[0]).toBe(
+      "query {\n" +
+        "\tviewer {\n\t\tid\n\t\t...\n\t\t@defer(label: \"Name\") {\n\t\t\tname\n\t\t}\n\t}\n" +
+        "\tposts\n\t@stream(initialCount: 1) {\n\t\tid\n\t}\n" +
+        "}\n",
+    );
+    expect(results.map((r) => [r.data, r.hasNext])).toEqual([
+      [{ viewer: { id: "u1" }, posts: [{ id: "p1" }] }, true],
+      [{ viewer: { id: "u1", name: "Ash" }, posts: [{ id: "p1" }, { id: "p2" }] }, false],
+    ]);
+    expect(await runtimeMod.execute(selection, { executor })).toEqual(results[1].data);
+  });
+
+  it("combines selections into one operation and splits the result", async () => {
+    const postFields = runtimeMod.fragment$("Post", (p: any) => p.id.title, "PostFields");
+    const first = query$((q: any) =>
+      q.viewer((u: any) => u.id).post({ id: ParameterRef.of("id") }, (p: any) =>
+        p.$use(postFields),
+      ),
+    );
+    const second = query$((q: any) =>
+      q.post({ id: ParameterRef.of("id") }, (p: any) => p.$use(postFields)),
+    );
+    const combined = combine({ first, second }, "Page");
+
+    let sent: { request: string; variables: Record<string, unknown> } | undefined;
+    const data = await runtimeMod.execute(combined.selection, {
+      variables: combined.variables({ first: { id: "p1" }, second: { id: "p2" } }),
+      executor: async (request: string, variables: Record<string, unknown>) => {
+        sent = { request, variables };
+        return {
+          data: {
+            viewer: { id: "u1" },
+            post: { id: "p1", title: "One" },
+            second_post: { id: "p2", title: "Two" },
+          },
+        };
+      },
+    });
+
+    expect(sent!.request).toBe(
+      "query Page($id: ID!, $second_id: ID!) {\n" +
+        "\tviewer {\n\t\tid\n\t}\n" +
+        "\tpost(id: $id) {\n\t\t... PostFields\n\t}\n" +
+        "\tsecond_post: post(id: $second_id) {\n\t\t... PostFields\n\t}\n" +
+        "}\n" +
+        "fragment PostFields on Post {\n\tid\n\ttitle\n}\n",
+    );
+    expect(sent!.variables).toEqual({ id: "p1", second_id: "p2" });
+    expect(combined.split(data)).toEqual({
+      first: { viewer: { id: "u1" }, post: { id: "p1", title: "One" } },
+      second: { post: { id: "p2", title: "Two" } },
+    });
+  });
+
+  it("decodes custom scalars in results and encodes them in variables", async () => {
+    const selection = query$((q: any) =>
+      q.postsPublishedAfter({ after: ParameterRef.of("after") }, (p: any) =>
+        p.id.publishedAt,
+      ),
+    );
+    let sent: Record<string, unknown> | undefined;
+    const data = await runtimeMod.execute(selection, {
+      variables: { after: new Date("2024-01-01T00:00:00.000Z") },
+      executor: async (_request: string, variables: Record<string, unknown>) => {
+        sent = variables;
+        return {
+          data: {
+            postsPublishedAfter: [
+              { id: "p1", publishedAt: "2024-02-03T04:05:06.000Z" },
+              { id: "p2", publishedAt: null },
+            ],
+          },
+        };
+      },
+    });
+
+    expect(sent).toEqual({ after: "2024-01-01T00:00:00.000Z" });
+    expect(data.postsPublishedAfter[0].publishedAt).toBeInstanceOf(Date);
+    expect(data.postsPublishedAfter[0].publishedAt.toISOString()).toBe(
+      "2024-02-03T04:05:06.000Z",
+    );
+    expect(data.postsPublishedAfter[1].publishedAt).toBeUndefined();
+  });
+
+  it("executes selections against the schema-aware mock executor", async () => {
+    const executor = createMockExecutor(await loadLocalSchema(SCHEMA_FILE), {
+      seed: 3,
+      resolvers: {
+        DateTime: () => "2024-02-03T04:05:06.000Z",
+        Post: () => ({ title: "Pinned" }),
+      },
+    });
+    const selection = query$((q: any) =>
+      q
+        .viewer((u: any) => u.id.name)
+        .posts({ first: ParameterRef.of("first") }, (p: any) => p.id.title.publishedAt),
+    );
+
+    const data = await runtimeMod.execute(selection, { variables: { first: 2 }, executor });
+
+    expect(typeof data.viewer.name).toBe("string");
+    expect(data.posts).toHaveLength(2);
+    expect(data.posts[0].title).toBe("Pinned");
+    expect(data.posts[0].publishedAt).toBeInstanceOf(Date);
+    expect(await runtimeMod.execute(selection, { variables: { first: 2 }, executor })).toEqual(
+      data,
+    );
+  });
+});
@@ -0,0 +1,6 @@
+import type { ScalarCodec } from "../../src/index";
+
+export const dateTimeCodec: ScalarCodec<Date, string> = {
+  parse: (value) => new Date(value),
+  serialize: (date) => date.toISOString(),
+};
@@ -1,5 +1,5 @@
-import { expectAssignable, expectError, expectType } from "tsd";
-import { fragment$ } from "./__gen__/index";
+import { expectAssignable, expectError, expectNotAssignable, expectType } from "tsd";
+import { createClient, execute, fragment$, watch } from "./__gen__/index";
 import { query$ } from "./__gen__/selections/query-selection";
 import { mutation$ } from "./__gen__/selections/mutation-selection";
 import { subscription$ } from "./__gen__/selections/subscription-selection";
@@ -59,6 +59,87 @@ const postWithOnVar = query$((q) =>
 const postWithOnVars = null as unknown as VariablesOf<typeof postWithOnVar>;
 expectAssignable<string>(postWithOnVars.postId);
 
+// $defer / $stream typing
+const viewerWithDefer = query$((q) =>
+  q.viewer((u) => u.id.$on((it) => it.email).$defer("Email")),
+);
+expectType<string>(
+  (null as unknown as ShapeOf<typeof viewerWithDefer>).viewer.id,
+);
+expectType<string | undefined>(
+  (null as unknown as ShapeOf<typeof viewerWithDefer>).viewer.email,
+);
+const viewerWithDeferredUse = query$((q) =>
+  q.viewer((u) => u.$use(userBaseFragment).$defer()),
+);
+expectType<string | undefined>(
+  (null as unknown as ShapeOf<typeof viewerWithDeferredUse>).viewer.name,
+);
+expectError(query$((q) => q.viewer((u) => u.id.$defer())));
+query$((q) => q.viewer((u) => u.posts((p) => p.id).$stream(2)));
+expectError(query$((q) => q.viewer((u) => u.id.$stream(2))));
+
+// nullMode typing
+async () => {
+  const converted = await execute(postSelection);
+  expectNotAssignable<typeof converted.post>(null);
+  const preserved = await execute(postSelection, { nullMode: "preserve" });
+  expectAssignable<typeof preserved.post>(null);
+  const client = createClient({ nullMode: "preserve" });
+  expectAssignable<typeof preserved.post>(
+    (await client.execute(postSelection)).post,
+  );
+  const overridden = await client.execute(postSelection, { nullMode: "undefined" });
+  expectNotAssignable<typeof overridden.post>(null);
+};
+
+// watch typing
+{
+  const postById = query$((q) => q.post({ id: ParameterRef.of("postId") }, (p) => p.id.title));
+  const watched = watch(postById, { variables: { postId: "p1" }, pollInterval: 1000 });
+  watched.subscribe((result) => expectType<string | undefined>(result.data?.post?.title));
+  expectError(watched.setVariables({ postId: 1 }));
+  expectError(watch(mutation$((m) => m.updateUser({ input: { id: "u1" } }, (u) => u.id))));
+}
+
+// optimisticResponse typing
+{
+  const rename = mutation$((m) => m.updateUser({ input: { id: "u1" } }, (u) => u.id.name));
+  const optimisticResponse = { updateUser: { id: "u1", name: "Neo" } };
+  expectType<Promise<{ readonly updateUser: { readonly id: string; readonly name: string } }>>(
+    execute(rename, { optimisticResponse }),
+  );
+  expectError(execute(rename, { optimisticResponse: { updateUser: { id: "u1" } } }));
+  expectError(execute(rename, { optimisticResponse: { updateUser: { id: 1, name: "Neo" } } }));
+}
+
+// mutation cache options typing
+{
+  const rename = mutation$((m) => m.updateUser({ input: { id: "u1" } }, (u) => u.id.name));
+  const viewer = query$((q) => q.viewer((u) => u.id.name));
+  const postById = query$((q) => q.post({ id: ParameterRef.of("postId") }, (p) => p.id.title));
+  execute(rename, {
+    update: (cache, data) => {
+      expectType<string>(data.updateUser.name);
+      const cached = cache.readQuery(viewer);
+      expectType<string | undefined>(cached?.viewer.name);
+      cache.writeQuery(viewer, { viewer: { id: "u1", name: data.updateUser.name } });
+      expectError(cache.writeQuery(viewer, { viewer: { id: "u1" } }));
+      expectError(cache.readQuery(postById, { variables: { postId: 1 } }));
+    },
+    invalidate: ["Post", { typename: "User", id: "u1" }],
+    refetch: [viewer, [postById, { postId: "p1" }]],
+  });
+  execute(rename, {
+    nullMode: "preserve",
+    update: (cache) => {
+      const post = cache.readQuery(postById, { variables: { postId: "p1" } })?.post;
+      expectAssignable<typeof post>(null);
+    },
+  });
+  expectError(execute(rename, { invalidate: [{ typename: "User" }] }));
+}
+
 query$((q) => q.post({ id: ParameterRef.of("postId") }, (p) => p.id));
 query$((q) => q.viewer((u) => u.id.name.email));
 query$((q) =>